@@ -2,8 +2,15 @@ import { useEffect, useState } from "react";
 import { InactifyProvider, useInactify } from "../../src/index";
 
 const MarkAsActiveButton = () => {
-  const { markActive } = useInactify();
-  return <button onClick={markActive}>Mark as active</button>;
+  const { markActive, markActiveWith } = useInactify();
+  return (
+    <>
+      <button onClick={markActive}>Mark as active</button>
+      <button onClick={() => markActiveWith({ label: "autosave" })}>
+        Autosave
+      </button>
+    </>
+  );
 };
 
 const ActivityStatus = () => {
@@ -1,17 +1,73 @@
 import React from "react";
-import { ActivityManager } from "./managers/activity-manager";
-import { TabManager } from "./managers/tab-manager";
+import { createLogger, type Logger, type LogLevel } from "./debug/logger";
+import type { IdleClockOptions } from "./idle-clock/idle-clock";
+import type { ActivityDetectorOptions } from "./managers/activity-detector";
+import type {
+  ActivityRecorderOptions,
+  ActivityStats,
+} from "./managers/activity-recorder";
+import {
+  ActivityManager,
+  type ActivityListener,
+  type ActivityMetadata,
+  type MarkActiveOptions,
+  type SessionEndEvent,
+} from "./managers/activity-manager";
+import type {
+  KeepAliveOptions,
+  KeepAliveState,
+} from "./managers/session-keep-alive";
+import { TabManager, type TabTrackingOptions } from "./managers/tab-manager";
+import type {
+  VisibilityOptions,
+  VisibilityState,
+} from "./managers/visibility-tracker";
+import type { WakeUpOptions } from "./managers/wake-up-detector";
+import type { StorageApi } from "./storage/storage-manager";
+import type { SyncTransport, SyncTransportKind } from "./sync/sync-transport";
+import type { ClockOptions } from "./utils/monotonic-clock";
 
 export interface InactifyProviderOptions {
   storagePrefix?: string;
-  storage: Storage;
+  /** Storage used to persist activity and tabs (or a custom storage adapter) */
+  storage?: StorageApi;
   syncActivityAcrossTabs?: boolean;
+  /** Transport used to sync activity across tabs */
+  syncTransport?: SyncTransportKind | SyncTransport;
+  /** Automatically mark the user as active on DOM events */
+  detectActivity?: boolean | ActivityDetectorOptions;
+  /** Record an activity history with usage statistics */
+  recordActivity?: boolean | ActivityRecorderOptions;
+  /** Extend the server session on activity, throttled across all tabs */
+  keepAlive?: KeepAliveOptions;
+  /** Maximum session length in milliseconds, however active the user is */
+  absoluteTimeoutInMilliseconds?: number;
+  /** How page visibility affects the idle state */
+  visibility?: VisibilityOptions;
+  /** Heartbeat interval and stale timeout of the tab tracking */
+  tabTracking?: TabTrackingOptions;
+  /** Detection of wall clock jumps and future timestamps */
+  clock?: ClockOptions;
+  /** Rechecks of the inactivity timers after the page may have been asleep */
+  wakeUp?: WakeUpOptions;
+  /** Run the inactivity timeouts in a worker shared by all tabs */
+  idleClock?: boolean | IdleClockOptions;
+  /** Custom logger the diagnostics are written to (defaults to the console) */
+  logger?: Logger;
+  /** Minimum level of logged messages (defaults to "silent", or "info" with debug or a custom logger) */
+  logLevel?: LogLevel;
+  /** Log all diagnostics, shorthand for logLevel "info" */
+  debug?: boolean;
+  /** Also mark the enclosing provider's scope as active on activity in this scope */
+  rollUpToParent?: boolean;
 }
 
 interface InactifyContextValue {
   defaultOptions: InactifyProviderOptions;
-  /** Manually mark the user as active */
+  /** Manually mark the user as active, usable as an event handler */
   markActive: () => void;
+  /** Manually mark the user as active with a source and label */
+  markActiveWith: (options: MarkActiveOptions) => void;
   /** Get the last activity timestamp in milliseconds */
   lastActive: () => number | null;
   /** Check if the user is inactive for a given timeout */
@@ -22,8 +78,58 @@ interface InactifyContextValue {
   isOnlyTab: () => boolean;
   /** Get the count of active tabs (only in per-tab mode) */
   getActiveTabCount: () => number;
+  /** Get the count of active tabs that are currently visible */
+  getVisibleTabCount: () => number;
+  /** Get the visibility state of this tab */
+  visibilityState: () => DocumentVisibilityState;
+  /** Check if this tab has focus */
+  hasFocus: () => boolean;
+  /** Check if this tab is the leader among all active tabs */
+  isLeader: () => boolean;
+  /** Subscribe to leadership changes of this tab */
+  onLeadershipChange: (callback: (isLeader: boolean) => void) => () => void;
+  /** Pause idle tracking (shared across tabs when syncing activity) */
+  pause: () => void;
+  /** Resume idle tracking */
+  resume: () => void;
+  /** Check if idle tracking is paused */
+  isPaused: () => boolean;
+  /** End the session in all tabs, e.g. on logout */
+  endSession: (reason?: string) => void;
+  /** Start a new session after it has ended */
+  resetSession: () => void;
+  /** Check if the session has ended */
+  isSessionEnded: () => boolean;
+  /** Remove everything persisted under the storage prefix and scope of this provider */
+  clearStorage: () => void;
+  /** Clear the storage and start over with a new session */
+  reset: () => void;
+  /** Subscribe when the session ends in this or any other tab */
+  subscribeToSessionEnd: (
+    callback: (event: SessionEndEvent) => void
+  ) => () => void;
+  /** Get usage statistics (null unless recordActivity is enabled) */
+  getActivityStats: () => ActivityStats | null;
+  /** Export the activity history as JSON (null unless recordActivity is enabled) */
+  exportActivityHistory: () => string | null;
+  /** Remove the recorded activity history */
+  clearActivityHistory: () => void;
+  /** Get the time the session started in milliseconds */
+  getSessionStartTime: () => number | null;
+  /** Get the time left until the absolute session lifetime ends (null without absoluteTimeoutInMilliseconds) */
+  getRemainingSessionTime: () => number | null;
+  /** Subscribe to the session reaching its absolute lifetime in any tab */
+  subscribeToSessionExpiry: (
+    callback: (event: SessionEndEvent) => void
+  ) => () => void;
+  /** Get the state of the last keepalive of any tab (null unless keepAlive is set) */
+  getKeepAliveState: () => KeepAliveState | null;
   /** Manually update the last active time */
   updateLastActive: (value: Date) => void;
+  /** Get the source, tab and label of the last activity */
+  lastActivityMetadata: () => ActivityMetadata | null;
+  /** Subscribe to activity in this and other tabs, called immediately with the current value */
+  subscribeToActivity: (callback: ActivityListener) => () => void;
   /** Subscribe when user becomes inactive for a given timeout */
   subscribeToInactivity: (
     timeoutInMilliseconds: number,
@@ -34,89 +140,346 @@ interface InactifyContextValue {
 interface InactifyProviderProps {
   children: React.ReactNode;
   defaultOptions?: InactifyProviderOptions;
+  /** Name of a separate idle clock, reachable through useInactify(scope) */
+  scope?: string;
 }
 
 const DEFAULT_OPTIONS: InactifyProviderOptions = {
-  storage: window.localStorage,
   syncActivityAcrossTabs: true,
 } as const;
 
+/** Visibility used on the server and before hydration */
+const SERVER_VISIBILITY_STATE: VisibilityState = {
+  visibilityState: "visible",
+  hasFocus: false,
+};
+
+const noop = () => undefined;
+
+const getLogLevel = ({
+  logLevel,
+  logger,
+  debug,
+}: InactifyProviderOptions): LogLevel =>
+  logLevel ?? (debug || logger ? "info" : "silent");
+
+const getActivityDetectionOptions = (
+  detectActivity: InactifyProviderOptions["detectActivity"]
+): ActivityDetectorOptions | undefined => {
+  if (!detectActivity) {
+    return undefined;
+  }
+  return detectActivity === true ? {} : detectActivity;
+};
+
+const getActivityRecordingOptions = (
+  recordActivity: InactifyProviderOptions["recordActivity"]
+): ActivityRecorderOptions | undefined => {
+  if (!recordActivity) {
+    return undefined;
+  }
+  return recordActivity === true ? {} : recordActivity;
+};
+
+const getIdleClockOptions = (
+  idleClock: InactifyProviderOptions["idleClock"]
+): IdleClockOptions | undefined => {
+  if (!idleClock) {
+    return undefined;
+  }
+  return idleClock === true ? {} : idleClock;
+};
+
 export const InactifyContext = React.createContext<
   InactifyContextValue | undefined
 >(undefined);
 
+/**
+ * Context values of all named scopes provided above, by scope name
+ */
+const InactifyScopesContext = React.createContext<
+  ReadonlyMap<string, InactifyContextValue>
+>(new Map());
+
+/**
+ * Internal context giving hooks access to the TabManager of the provider.
+ * The value is null on the server and until the provider has mounted.
+ */
+export const TabManagerContext = React.createContext<
+  TabManager | null | undefined
+>(undefined);
+
+/**
+ * Internal context giving hooks access to the underlying ActivityManager.
+ * The value is null on the server and until the provider has mounted.
+ */
+export const ActivityManagerContext = React.createContext<
+  ActivityManager | null | undefined
+>(undefined);
+
 export const InactifyProvider = ({
   children,
   defaultOptions = DEFAULT_OPTIONS,
+  scope,
 }: InactifyProviderProps) => {
-  const activityManagerRef = React.useRef<ActivityManager | null>(null);
-
-  const getActivityManager = () => {
-    if (!activityManagerRef.current) {
-      activityManagerRef.current = new ActivityManager({
-        syncAcrossTabs:
-          defaultOptions.syncActivityAcrossTabs ??
-          DEFAULT_OPTIONS.syncActivityAcrossTabs ??
-          true,
-        storagePrefix: defaultOptions.storagePrefix,
-      });
-    }
-    return activityManagerRef.current;
-  };
+  const parentScopes = React.useContext(InactifyScopesContext);
+  const parentActivityManager = React.useContext(ActivityManagerContext);
+  const rollUpTarget = defaultOptions.rollUpToParent
+    ? (parentActivityManager ?? undefined)
+    : undefined;
 
-  const [lastActive, setLastActive] = React.useState<number | null>(() =>
-    getActivityManager().getLastActivityTime()
-  );
+  const [activityManager, setActivityManager] =
+    React.useState<ActivityManager | null>(null);
+  const [tabManager, setTabManager] = React.useState<TabManager | null>(null);
 
-  React.useEffect(() => {
-    const activityManager = getActivityManager();
-    const unsubscribe = activityManager.subscribe(setLastActive);
+  // Read when a keepalive is sent, so the callback may change on every render
+  const keepAliveRef = React.useRef(defaultOptions.keepAlive);
+  const hasKeepAlive = defaultOptions.keepAlive !== undefined;
 
-    return () => {
-      unsubscribe();
-    };
-  }, [defaultOptions.syncActivityAcrossTabs, defaultOptions.storagePrefix]);
+  React.useEffect(() => {
+    keepAliveRef.current = defaultOptions.keepAlive;
+  });
 
+  // Tracking starts after hydration, so server and first client render match.
+  // Options not listed in the dependencies are read when the managers are created.
   React.useEffect(() => {
+    const logger = createLogger(
+      getLogLevel(defaultOptions),
+      defaultOptions.logger
+    );
+    const tabs = new TabManager({
+      ...defaultOptions.tabTracking,
+      storage: defaultOptions.storage,
+      storagePrefix: defaultOptions.storagePrefix,
+      logger,
+    });
+    const manager = new ActivityManager({
+      syncAcrossTabs:
+        defaultOptions.syncActivityAcrossTabs ??
+        DEFAULT_OPTIONS.syncActivityAcrossTabs ??
+        true,
+      storagePrefix: defaultOptions.storagePrefix,
+      scope,
+      parent: rollUpTarget,
+      syncTransport: defaultOptions.syncTransport,
+      storage: defaultOptions.storage,
+      activityDetection: getActivityDetectionOptions(
+        defaultOptions.detectActivity
+      ),
+      visibility: defaultOptions.visibility,
+      clock: defaultOptions.clock,
+      wakeUp: defaultOptions.wakeUp,
+      idleClock: getIdleClockOptions(defaultOptions.idleClock),
+      activityRecording: getActivityRecordingOptions(
+        defaultOptions.recordActivity
+      ),
+      keepAlive: defaultOptions.keepAlive && {
+        ...defaultOptions.keepAlive,
+        onKeepAlive: (lastActive) =>
+          keepAliveRef.current?.onKeepAlive(lastActive) ?? Promise.resolve(),
+      },
+      absoluteTimeoutInMilliseconds:
+        defaultOptions.absoluteTimeoutInMilliseconds,
+      logger,
+      tabManager: tabs,
+    });
+    setTabManager(tabs);
+    setActivityManager(manager);
+
     return () => {
-      if (activityManagerRef.current) {
-        activityManagerRef.current.destroy();
-      }
+      manager.destroy();
+      tabs.destroy();
     };
-  }, []);
+  }, [
+    defaultOptions.syncActivityAcrossTabs,
+    defaultOptions.storagePrefix,
+    defaultOptions.storage,
+    defaultOptions.syncTransport,
+    defaultOptions.logger,
+    defaultOptions.logLevel,
+    defaultOptions.debug,
+    defaultOptions.absoluteTimeoutInMilliseconds,
+    hasKeepAlive,
+    scope,
+    rollUpTarget,
+  ]);
 
-  const contextValue: InactifyContextValue = React.useMemo(() => {
-    const activityManager = getActivityManager();
+  const lastActive = React.useSyncExternalStore(
+    React.useCallback(
+      (onStoreChange: () => void) =>
+        activityManager?.subscribe(onStoreChange) ?? noop,
+      [activityManager]
+    ),
+    () => activityManager?.getLastActivityTime() ?? null,
+    () => null
+  );
 
+  const visibility = React.useSyncExternalStore(
+    React.useCallback(
+      (onStoreChange: () => void) =>
+        activityManager?.subscribeToVisibility(onStoreChange) ?? noop,
+      [activityManager]
+    ),
+    () => activityManager?.getVisibilityState() ?? SERVER_VISIBILITY_STATE,
+    () => SERVER_VISIBILITY_STATE
+  );
+
+  const isPaused = React.useSyncExternalStore(
+    React.useCallback(
+      (onStoreChange: () => void) =>
+        activityManager?.subscribeToPause(onStoreChange) ?? noop,
+      [activityManager]
+    ),
+    () => activityManager?.isPaused() ?? false,
+    () => false
+  );
+
+  // Ending a session notifies session end listeners, resetting it marks activity
+  const isSessionEnded = React.useSyncExternalStore(
+    React.useCallback(
+      (onStoreChange: () => void) => {
+        if (!activityManager) {
+          return noop;
+        }
+
+        const unsubscribeSessionEnd =
+          activityManager.subscribeToSessionEnd(onStoreChange);
+        const unsubscribeActivity = activityManager.subscribe(onStoreChange);
+
+        return () => {
+          unsubscribeSessionEnd();
+          unsubscribeActivity();
+        };
+      },
+      [activityManager]
+    ),
+    () => activityManager?.isSessionEnded() ?? false,
+    () => false
+  );
+
+  const contextValue: InactifyContextValue = React.useMemo(() => {
     return {
       isInactiveFor: (timeout: number) =>
-        activityManager.isInactiveFor(timeout),
-      getTabId: () => TabManager.tabId,
-      isOnlyTab: () => TabManager.getActiveTabsCount() === 1,
-      getActiveTabCount: () => TabManager.getActiveTabsCount(),
+        activityManager?.isInactiveFor(timeout) ?? false,
+      getTabId: () => tabManager?.tabId ?? null,
+      isOnlyTab: () => tabManager?.getActiveTabsCount() === 1,
+      getActiveTabCount: () => tabManager?.getActiveTabsCount() ?? 0,
+      getVisibleTabCount: () => tabManager?.getVisibleTabIds().length ?? 0,
+      visibilityState: () => visibility.visibilityState,
+      hasFocus: () => visibility.hasFocus,
+      isLeader: () => tabManager?.isLeader() ?? false,
+      onLeadershipChange: (callback: (isLeader: boolean) => void) =>
+        tabManager?.onLeadershipChange(callback) ?? noop,
       lastActive: () => lastActive,
-      markActive: () => activityManager.markActive(),
-      updateLastActive: (value: Date) => activityManager.markActive(value),
+      // Arguments are ignored, e.g. the event when used as a click handler
+      markActive: () => activityManager?.markActive(),
+      markActiveWith: (options: MarkActiveOptions) =>
+        activityManager?.markActive(undefined, options),
+      updateLastActive: (value: Date) => activityManager?.markActive(value),
+      lastActivityMetadata: () =>
+        activityManager?.getLastActivityMetadata() ?? null,
+      subscribeToActivity: (callback: ActivityListener) =>
+        activityManager?.subscribe(callback) ?? noop,
+      pause: () => activityManager?.pause(),
+      resume: () => activityManager?.resume(),
+      isPaused: () => isPaused,
+      getActivityStats: () =>
+        activityManager?.getActivityRecorder()?.getStats() ?? null,
+      exportActivityHistory: () =>
+        activityManager?.getActivityRecorder()?.exportJSON() ?? null,
+      clearActivityHistory: () =>
+        activityManager?.getActivityRecorder()?.clear(),
+      getSessionStartTime: () => activityManager?.getSessionStartTime() ?? null,
+      getRemainingSessionTime: () =>
+        activityManager?.getRemainingSessionTime() ?? null,
+      subscribeToSessionExpiry: (callback: (event: SessionEndEvent) => void) =>
+        activityManager?.subscribeToSessionExpiry(callback) ?? noop,
+      getKeepAliveState: () =>
+        activityManager?.getSessionKeepAlive()?.getState() ?? null,
+      endSession: (reason?: string) => activityManager?.endSession(reason),
+      resetSession: () => activityManager?.resetSession(),
+      isSessionEnded: () => isSessionEnded,
+      clearStorage: () => activityManager?.clearStorage(),
+      reset: () => activityManager?.reset(),
+      subscribeToSessionEnd: (callback: (event: SessionEndEvent) => void) =>
+        activityManager?.subscribeToSessionEnd(callback) ?? noop,
       subscribeToInactivity: (
         timeoutInMilliseconds: number,
         callback: () => void
       ) =>
-        activityManager.subscribeToInactivity(timeoutInMilliseconds, callback),
+        activityManager?.subscribeToInactivity(
+          timeoutInMilliseconds,
+          callback
+        ) ?? noop,
       defaultOptions,
     };
-  }, [lastActive, defaultOptions]);
+  }, [
+    activityManager,
+    tabManager,
+    lastActive,
+    visibility,
+    isPaused,
+    isSessionEnded,
+    defaultOptions,
+  ]);
+
+  const scopes = React.useMemo(
+    () =>
+      scope ? new Map(parentScopes).set(scope, contextValue) : parentScopes,
+    [parentScopes, scope, contextValue]
+  );
 
   return (
-    <InactifyContext.Provider value={contextValue}>
-      {children}
-    </InactifyContext.Provider>
+    <InactifyScopesContext.Provider value={scopes}>
+      <TabManagerContext.Provider value={tabManager}>
+        <ActivityManagerContext.Provider value={activityManager}>
+          <InactifyContext.Provider value={contextValue}>
+            {children}
+          </InactifyContext.Provider>
+        </ActivityManagerContext.Provider>
+      </TabManagerContext.Provider>
+    </InactifyScopesContext.Provider>
   );
 };
 
-export const useInactify = () => {
+/**
+ * Gets the idle state of the nearest provider, or of the nearest
+ * provider with the given scope name
+ */
+export const useInactify = (scope?: string) => {
   const context = React.useContext(InactifyContext);
+  const scopes = React.useContext(InactifyScopesContext);
+
+  if (scope !== undefined) {
+    const scopedContext = scopes.get(scope);
+    if (!scopedContext) {
+      throw new Error(
+        `useInactify must be used within an InactifyProvider with scope "${scope}"`
+      );
+    }
+    return scopedContext;
+  }
+
   if (!context) {
     throw new Error("useInactify must be used within an InactifyProvider");
   }
   return context;
 };
+
+export const useActivityManager = () => {
+  const activityManager = React.useContext(ActivityManagerContext);
+  if (activityManager === undefined) {
+    throw new Error(
+      "useActivityManager must be used within an InactifyProvider"
+    );
+  }
+  return activityManager;
+};
+
+export const useTabManager = () => {
+  const tabManager = React.useContext(TabManagerContext);
+  if (tabManager === undefined) {
+    throw new Error("useTabManager must be used within an InactifyProvider");
+  }
+  return tabManager;
+};
@@ -5,6 +5,19 @@
 
 export type LogMetadata = Record<string, unknown>;
 
+/**
+ * Minimum level of messages that are logged.
+ * "silent" disables logging entirely.
+ */
+export type LogLevel = "info" | "warning" | "error" | "silent";
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  silent: 3,
+};
+
 /**
  * Logging interface.
  */
@@ -77,4 +90,56 @@ export class ConsoleLogger implements Logger {
   }
 }
 
-export const Logger: Logger = new ConsoleLogger();
+/**
+ * Forwards messages to another logger if they meet the minimum level.
+ */
+export class LevelFilteredLogger implements Logger {
+  private readonly logger: Logger;
+  private readonly minLevel: LogLevel;
+
+  constructor(logger: Logger, minLevel: LogLevel) {
+    this.logger = logger;
+    this.minLevel = minLevel;
+  }
+
+  info(message: string, meta?: LogMetadata): void {
+    if (this.isEnabled("info")) {
+      this.logger.info(message, meta);
+    }
+  }
+
+  warning(message: string, meta?: LogMetadata): void {
+    if (this.isEnabled("warning")) {
+      this.logger.warning(message, meta);
+    }
+  }
+
+  error(message: string, error?: unknown, meta?: LogMetadata): void {
+    if (this.isEnabled("error")) {
+      this.logger.error(message, error, meta);
+    }
+  }
+
+  private isEnabled(level: LogLevel): boolean {
+    return (
+      this.minLevel !== "silent" &&
+      LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.minLevel]
+    );
+  }
+}
+
+/**
+ * Creates a logger that only logs messages of at least the given level.
+ * @param minLevel Minimum level of logged messages
+ * @param logger Logger the messages are forwarded to (defaults to the console)
+ */
+export const createLogger = (
+  minLevel: LogLevel,
+  logger: Logger = new ConsoleLogger()
+): Logger => new LevelFilteredLogger(logger, minLevel);
+
+/**
+ * Default logger used when no logger is injected. Silent, so that
+ * production builds do not write idle diagnostics to the console.
+ */
+export const Logger: Logger = createLogger("silent");
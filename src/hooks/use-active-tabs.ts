@@ -0,0 +1,46 @@
+import React from "react";
+import { useTabManager } from "../InactifyProvider";
+
+const SERVER_SNAPSHOT: string[] = [];
+
+const noop = () => undefined;
+
+const getServerSnapshot = () => SERVER_SNAPSHOT;
+
+/**
+ * Gets the sorted IDs of all active tabs and re-renders when tabs join or leave
+ */
+export const useActiveTabs = (): string[] => {
+  const tabManager = useTabManager();
+  const snapshotRef = React.useRef<string[]>(SERVER_SNAPSHOT);
+
+  const subscribe = React.useCallback(
+    (onStoreChange: () => void) =>
+      tabManager?.subscribeToTabs(onStoreChange) ?? noop,
+    [tabManager]
+  );
+
+  const getSnapshot = React.useCallback(() => {
+    const tabIds = tabManager?.getActiveTabIds().sort() ?? SERVER_SNAPSHOT;
+    const previous = snapshotRef.current;
+
+    // Keep the previous array while the tabs are unchanged to avoid re-rendering
+    if (
+      tabIds.length !== previous.length ||
+      tabIds.some((tabId, index) => tabId !== previous[index])
+    ) {
+      snapshotRef.current = tabIds;
+    }
+
+    return snapshotRef.current;
+  }, [tabManager]);
+
+  return React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+};
+
+/**
+ * Checks if this is the only active tab and re-renders when tabs join or leave
+ */
+export const useIsOnlyTab = (): boolean => {
+  return useActiveTabs().length === 1;
+};
@@ -0,0 +1,96 @@
+import React from "react";
+import { useActivityManager } from "../InactifyProvider";
+import {
+  IdleCountdown,
+  type IdleCountdownOptions,
+  type IdleStage,
+} from "../managers/idle-countdown";
+
+const COUNTDOWN_INTERVAL_IN_MILLISECONDS = 1000;
+
+/** Stage used on the server and until the provider has mounted */
+const SERVER_STAGE: IdleStage = "active";
+
+const noop = () => undefined;
+
+export interface IdleCountdownState {
+  /** Current idle stage */
+  stage: IdleStage;
+  /** Whether the warning stage is active */
+  isWarning: boolean;
+  /** Whether the timeout has been reached */
+  isTimedOut: boolean;
+  /** Time left until the timeout is reached in milliseconds */
+  remainingInMilliseconds: number;
+  /** Marks the user as active, dismissing the warning in every tab */
+  staySignedIn: () => void;
+}
+
+/**
+ * Tracks a two-stage idle countdown (warning, then timeout).
+ * Re-renders every second while the warning is showing.
+ */
+export const useIdleCountdown = ({
+  warnAfter,
+  timeoutAfter,
+}: IdleCountdownOptions): IdleCountdownState => {
+  const activityManager = useActivityManager();
+
+  if (warnAfter >= timeoutAfter) {
+    throw new Error("warnAfter must be less than timeoutAfter");
+  }
+
+  // No countdown runs on the server and until the provider has mounted
+  const countdown = React.useMemo(
+    () =>
+      activityManager
+        ? new IdleCountdown(activityManager, { warnAfter, timeoutAfter })
+        : null,
+    [activityManager, warnAfter, timeoutAfter]
+  );
+
+  React.useEffect(() => {
+    return () => {
+      countdown?.destroy();
+    };
+  }, [countdown]);
+
+  const subscribe = React.useCallback(
+    (onStoreChange: () => void) => countdown?.subscribe(onStoreChange) ?? noop,
+    [countdown]
+  );
+
+  const stage = React.useSyncExternalStore(
+    subscribe,
+    () => countdown?.getStage() ?? SERVER_STAGE,
+    () => SERVER_STAGE
+  );
+
+  const [, setTick] = React.useState(0);
+
+  React.useEffect(() => {
+    if (stage !== "warning") {
+      return;
+    }
+
+    const intervalId = window.setInterval(() => {
+      setTick((tick) => tick + 1);
+    }, COUNTDOWN_INTERVAL_IN_MILLISECONDS);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [stage]);
+
+  const staySignedIn = React.useCallback(() => {
+    activityManager?.markActive();
+  }, [activityManager]);
+
+  return {
+    stage,
+    isWarning: stage === "warning",
+    isTimedOut: stage === "timedOut",
+    remainingInMilliseconds: countdown?.getRemainingTime() ?? timeoutAfter,
+    staySignedIn,
+  };
+};
@@ -0,0 +1,96 @@
+import React from "react";
+import { useActivityManager } from "../InactifyProvider";
+import type { ActivityListener } from "../managers/activity-manager";
+
+export interface IdleTimerOptions {
+  /** Inactivity in milliseconds after which the user is idle */
+  timeout: number;
+  /** Called when the user becomes idle */
+  onIdle?: (() => void) | undefined;
+  /** Called when the user becomes active again after being idle (in any tab) */
+  onActive?: (() => void) | undefined;
+  /** Called on every activity with the last activity timestamp in milliseconds and its metadata */
+  onAction?: ActivityListener | undefined;
+}
+
+export interface IdleTimerState {
+  /** Whether the user is idle */
+  isIdle: boolean;
+  /** Marks the user as active */
+  reset: () => void;
+}
+
+/**
+ * Declarative idle timer. Callbacks may change between renders
+ * without resubscribing; the latest callbacks are always invoked.
+ */
+export const useIdleTimer = ({
+  timeout,
+  onIdle,
+  onActive,
+  onAction,
+}: IdleTimerOptions): IdleTimerState => {
+  const activityManager = useActivityManager();
+  const [isIdle, setIsIdle] = React.useState(false);
+
+  const callbacksRef = React.useRef({ onIdle, onActive, onAction });
+
+  React.useEffect(() => {
+    callbacksRef.current = { onIdle, onActive, onAction };
+  });
+
+  React.useEffect(() => {
+    if (!activityManager) {
+      return;
+    }
+
+    let idle = false;
+    let isSubscribing = true;
+    setIsIdle(false);
+
+    const unsubscribeFromInactivity = activityManager.subscribeToInactivity(
+      timeout,
+      () => {
+        if (idle || !activityManager.isInactiveFor(timeout)) {
+          return;
+        }
+
+        idle = true;
+        setIsIdle(true);
+        callbacksRef.current.onIdle?.();
+      }
+    );
+
+    const unsubscribeFromActivity = activityManager.subscribe(
+      (lastActive, metadata) => {
+        // subscribe immediately reports the current value, which is not an action
+        if (isSubscribing) {
+          return;
+        }
+
+        // Without metadata the time changed without an activity
+        if (metadata) {
+          callbacksRef.current.onAction?.(lastActive, metadata);
+        }
+
+        if (idle && !activityManager.isInactiveFor(timeout)) {
+          idle = false;
+          setIsIdle(false);
+          callbacksRef.current.onActive?.();
+        }
+      }
+    );
+    isSubscribing = false;
+
+    return () => {
+      unsubscribeFromInactivity();
+      unsubscribeFromActivity();
+    };
+  }, [activityManager, timeout]);
+
+  const reset = React.useCallback(() => {
+    activityManager?.markActive();
+  }, [activityManager]);
+
+  return { isIdle, reset };
+};
@@ -0,0 +1,84 @@
+import React from "react";
+import { useActivityManager } from "../InactifyProvider";
+
+const DEFAULT_UPDATE_INTERVAL_IN_MILLISECONDS = 1000;
+
+export interface SessionTimeRemainingOptions {
+  /** Inactivity in milliseconds after which the user is idle */
+  idleTimeoutInMilliseconds: number;
+  /** Time between two updates in milliseconds */
+  updateIntervalInMilliseconds?: number | undefined;
+}
+
+export interface SessionTimeRemaining {
+  /** Time left until the idle timeout is reached in milliseconds */
+  idleRemainingInMilliseconds: number;
+  /** Time left until the absolute session lifetime ends (null without absoluteTimeoutInMilliseconds) */
+  absoluteRemainingInMilliseconds: number | null;
+  /** Time left until the first of both limits is reached in milliseconds */
+  remainingInMilliseconds: number;
+}
+
+/**
+ * Time left until the idle timeout and the absolute session lifetime.
+ * Updates on activity in any tab, when the session ends and on every
+ * update interval.
+ */
+export const useSessionTimeRemaining = ({
+  idleTimeoutInMilliseconds,
+  updateIntervalInMilliseconds = DEFAULT_UPDATE_INTERVAL_IN_MILLISECONDS,
+}: SessionTimeRemainingOptions): SessionTimeRemaining => {
+  const activityManager = useActivityManager();
+  const [, setTick] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!activityManager) {
+      return;
+    }
+
+    const update = () => setTick((tick) => tick + 1);
+    const unsubscribeFromActivity = activityManager.subscribe(update);
+    const unsubscribeFromSessionEnd =
+      activityManager.subscribeToSessionEnd(update);
+    const intervalId = window.setInterval(update, updateIntervalInMilliseconds);
+
+    return () => {
+      unsubscribeFromActivity();
+      unsubscribeFromSessionEnd();
+      clearInterval(intervalId);
+    };
+  }, [activityManager, updateIntervalInMilliseconds]);
+
+  // Nothing is tracked on the server and until the provider has mounted
+  if (!activityManager) {
+    return {
+      idleRemainingInMilliseconds: idleTimeoutInMilliseconds,
+      absoluteRemainingInMilliseconds: null,
+      remainingInMilliseconds: idleTimeoutInMilliseconds,
+    };
+  }
+
+  const isSessionEnded = activityManager.isSessionEnded();
+  const idleRemainingInMilliseconds = isSessionEnded
+    ? 0
+    : Math.max(
+        0,
+        idleTimeoutInMilliseconds - activityManager.getInactiveDuration()
+      );
+  const absoluteRemaining = activityManager.getRemainingSessionTime();
+  const absoluteRemainingInMilliseconds =
+    absoluteRemaining === undefined
+      ? null
+      : isSessionEnded
+        ? 0
+        : absoluteRemaining;
+
+  return {
+    idleRemainingInMilliseconds,
+    absoluteRemainingInMilliseconds,
+    remainingInMilliseconds: Math.min(
+      idleRemainingInMilliseconds,
+      absoluteRemainingInMilliseconds ?? Infinity
+    ),
+  };
+};
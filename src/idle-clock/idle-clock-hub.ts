@@ -0,0 +1,172 @@
+import {
+  isIdleClockRequest,
+  type IdleClockEvent,
+  type IdleClockPort,
+} from "./idle-clock-protocol";
+
+interface ClockState {
+  /** Latest activity reported by any connected manager in milliseconds */
+  lastActive: number;
+  /** Ports watching each timeout */
+  watchers: Map<number, Set<IdleClockPort>>;
+  /** Pending timer of each timeout */
+  timers: Map<number, ReturnType<typeof setTimeout>>;
+}
+
+/**
+ * The idle clock running inside the worker. Holds the authoritative last
+ * activity time and one timer per timeout for every clock, and reports
+ * reached timeouts to all ports watching them.
+ */
+export class IdleClockHub {
+  private clocks = new Map<string, ClockState>();
+  private ports = new Map<IdleClockPort, (event: MessageEvent) => void>();
+
+  /**
+   * Connects a port of an ActivityManager to the hub
+   * @param port The port to receive requests from and send events to
+   */
+  connect(port: IdleClockPort): void {
+    if (this.ports.has(port)) {
+      return;
+    }
+
+    const listener = (event: MessageEvent) =>
+      this.handleRequest(port, event.data);
+
+    this.ports.set(port, listener);
+    port.addEventListener("message", listener);
+    port.start?.();
+  }
+
+  /**
+   * Disconnects a port and stops the timers nobody watches anymore
+   */
+  disconnect(port: IdleClockPort): void {
+    const listener = this.ports.get(port);
+
+    if (!listener) {
+      return;
+    }
+
+    port.removeEventListener("message", listener);
+    this.ports.delete(port);
+
+    for (const clock of this.clocks.values()) {
+      for (const timeoutInMilliseconds of [...clock.watchers.keys()]) {
+        this.unwatch(clock, timeoutInMilliseconds, port);
+      }
+    }
+  }
+
+  private handleRequest(port: IdleClockPort, request: unknown): void {
+    if (!isIdleClockRequest(request)) {
+      return;
+    }
+
+    if (request.type === "disconnect") {
+      this.disconnect(port);
+      return;
+    }
+
+    const clock = this.getClock(request.clockId);
+
+    switch (request.type) {
+      case "activity":
+        // The reported time is the stored one, so it also replaces a more
+        // recent time of the clock, e.g. after activity was backdated
+        if (request.lastActive === clock.lastActive) {
+          return;
+        }
+
+        clock.lastActive = request.lastActive;
+
+        for (const timeoutInMilliseconds of clock.watchers.keys()) {
+          this.schedule(request.clockId, clock, timeoutInMilliseconds);
+        }
+        break;
+      case "watch": {
+        let ports = clock.watchers.get(request.timeoutInMilliseconds);
+
+        if (!ports) {
+          ports = new Set();
+          clock.watchers.set(request.timeoutInMilliseconds, ports);
+        }
+
+        ports.add(port);
+
+        // A reached timeout is reported again, the manager ignores
+        // it unless it still waits for it
+        if (!clock.timers.has(request.timeoutInMilliseconds)) {
+          this.schedule(request.clockId, clock, request.timeoutInMilliseconds);
+        }
+        break;
+      }
+      case "unwatch":
+        this.unwatch(clock, request.timeoutInMilliseconds, port);
+        break;
+    }
+  }
+
+  private getClock(clockId: string): ClockState {
+    let clock = this.clocks.get(clockId);
+
+    if (!clock) {
+      clock = { lastActive: 0, watchers: new Map(), timers: new Map() };
+      this.clocks.set(clockId, clock);
+    }
+
+    return clock;
+  }
+
+  private unwatch(
+    clock: ClockState,
+    timeoutInMilliseconds: number,
+    port: IdleClockPort
+  ): void {
+    const ports = clock.watchers.get(timeoutInMilliseconds);
+    ports?.delete(port);
+
+    if (ports?.size !== 0) {
+      return;
+    }
+
+    clearTimeout(clock.timers.get(timeoutInMilliseconds));
+    clock.timers.delete(timeoutInMilliseconds);
+    clock.watchers.delete(timeoutInMilliseconds);
+  }
+
+  /**
+   * (Re)starts the timer of a timeout, measured from the last activity
+   */
+  private schedule(
+    clockId: string,
+    clock: ClockState,
+    timeoutInMilliseconds: number
+  ): void {
+    clearTimeout(clock.timers.get(timeoutInMilliseconds));
+
+    const remaining = timeoutInMilliseconds - (Date.now() - clock.lastActive);
+
+    clock.timers.set(
+      timeoutInMilliseconds,
+      setTimeout(
+        () => {
+          clock.timers.delete(timeoutInMilliseconds);
+
+          const event: IdleClockEvent = {
+            type: "idle",
+            clockId,
+            timeoutInMilliseconds,
+            lastActive: clock.lastActive,
+          };
+
+          for (const port of clock.watchers.get(timeoutInMilliseconds) ?? []) {
+            port.postMessage(event);
+          }
+        },
+        Math.max(0, remaining)
+      )
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Messages sent from an ActivityManager to the idle clock worker
+ */
+export type IdleClockRequest =
+  | {
+      type: "activity";
+      /** Key of the idle clock, managers sharing activity share the clock */
+      clockId: string;
+      /** Last activity timestamp in milliseconds, as stored by the manager */
+      lastActive: number;
+    }
+  | {
+      type: "watch" | "unwatch";
+      clockId: string;
+      /** Inactivity timeout to report in milliseconds */
+      timeoutInMilliseconds: number;
+    }
+  | {
+      type: "disconnect";
+    };
+
+/**
+ * Messages sent from the idle clock worker to the connected managers
+ */
+export interface IdleClockEvent {
+  type: "idle";
+  clockId: string;
+  /** Inactivity timeout that was reached in milliseconds */
+  timeoutInMilliseconds: number;
+  /** Last activity timestamp the timeout was measured from */
+  lastActive: number;
+}
+
+/**
+ * The end of a message channel the idle clock talks through,
+ * e.g. a MessagePort of a SharedWorker or a dedicated Worker
+ */
+export interface IdleClockPort {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  start?(): void;
+}
+
+/**
+ * Checks whether an unknown message received by the worker is a valid request
+ */
+export const isIdleClockRequest = (
+  value: unknown
+): value is IdleClockRequest => {
+  if (typeof value !== "object" || value === null || !("type" in value)) {
+    return false;
+  }
+
+  switch (value.type) {
+    case "activity":
+      return (
+        "clockId" in value &&
+        typeof value.clockId === "string" &&
+        "lastActive" in value &&
+        typeof value.lastActive === "number"
+      );
+    case "watch":
+    case "unwatch":
+      return (
+        "clockId" in value &&
+        typeof value.clockId === "string" &&
+        "timeoutInMilliseconds" in value &&
+        typeof value.timeoutInMilliseconds === "number"
+      );
+    case "disconnect":
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks whether an unknown message received from the worker is a valid event
+ */
+export const isIdleClockEvent = (value: unknown): value is IdleClockEvent =>
+  typeof value === "object" &&
+  value !== null &&
+  "type" in value &&
+  value.type === "idle" &&
+  "clockId" in value &&
+  typeof value.clockId === "string" &&
+  "timeoutInMilliseconds" in value &&
+  typeof value.timeoutInMilliseconds === "number" &&
+  "lastActive" in value &&
+  typeof value.lastActive === "number";
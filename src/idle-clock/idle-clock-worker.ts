@@ -0,0 +1,19 @@
+import { IdleClockHub } from "./idle-clock-hub";
+import type { IdleClockPort } from "./idle-clock-protocol";
+
+/**
+ * Entry of the idle clock worker. Runs as a SharedWorker, where every
+ * tab connects through its own port, or as a dedicated Worker.
+ */
+const hub = new IdleClockHub();
+const scope = globalThis as unknown as IdleClockPort & EventTarget;
+
+if ("onconnect" in scope) {
+  scope.addEventListener("connect", (event) => {
+    for (const port of (event as MessageEvent).ports) {
+      hub.connect(port);
+    }
+  });
+} else {
+  hub.connect(scope);
+}
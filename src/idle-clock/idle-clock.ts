@@ -0,0 +1,127 @@
+import { Logger } from "../debug/logger";
+import {
+  isIdleClockEvent,
+  type IdleClockEvent,
+  type IdleClockPort,
+  type IdleClockRequest,
+} from "./idle-clock-protocol";
+
+export interface IdleClockOptions {
+  /**
+   * Creates the worker running the idle clock (defaults to a SharedWorker
+   * running the bundled idle clock script, or a dedicated Worker where
+   * SharedWorker is not available)
+   */
+  createWorker?: (() => SharedWorker | Worker) | undefined;
+}
+
+const WORKER_NAME = "inactify-idle-clock";
+
+const createDefaultWorker = (): SharedWorker | Worker => {
+  const url = new URL("./idle-clock-worker.js", import.meta.url);
+
+  if (typeof SharedWorker !== "undefined") {
+    return new SharedWorker(url, { type: "module", name: WORKER_NAME });
+  }
+
+  return new Worker(url, { type: "module", name: WORKER_NAME });
+};
+
+/**
+ * Connection of an ActivityManager to the idle clock worker.
+ * With a SharedWorker all tabs of the origin share one clock, so inactivity
+ * timeouts fire on time even in hidden tabs whose timers are throttled.
+ */
+export class IdleClock {
+  private readonly clockId: string;
+  private readonly worker: SharedWorker | Worker;
+  private readonly port: IdleClockPort;
+  private readonly onIdle: (event: IdleClockEvent) => void;
+  private readonly onError: () => void;
+  private readonly logger: Logger;
+
+  private messageListener = (event: MessageEvent) => {
+    if (isIdleClockEvent(event.data) && event.data.clockId === this.clockId) {
+      this.onIdle(event.data);
+    }
+  };
+  private errorListener = (event: Event) => {
+    this.logger.error("Error in idle clock worker", event);
+    this.onError();
+  };
+
+  /**
+   * @param clockId Key of the clock, managers sharing activity share the clock
+   * @param onIdle Callback to invoke when a watched timeout is reached
+   * @param onError Callback to invoke when the worker fails after it was
+   * created, e.g. because its script could not be loaded
+   * @throws When the worker cannot be created
+   */
+  constructor(
+    clockId: string,
+    options: IdleClockOptions,
+    onIdle: (event: IdleClockEvent) => void,
+    onError: () => void,
+    logger: Logger = Logger
+  ) {
+    this.clockId = clockId;
+    this.onIdle = onIdle;
+    this.onError = onError;
+    this.logger = logger;
+    this.worker = (options.createWorker ?? createDefaultWorker)();
+    this.port = "port" in this.worker ? this.worker.port : this.worker;
+
+    this.worker.addEventListener("error", this.errorListener);
+    this.port.addEventListener("message", this.messageListener);
+    this.port.start?.();
+  }
+
+  /**
+   * Reports the last activity, replacing the one of the clock even if older
+   * @param lastActive Last activity timestamp in milliseconds
+   */
+  markActive(lastActive: number): void {
+    this.post({ type: "activity", clockId: this.clockId, lastActive });
+  }
+
+  /**
+   * Asks the clock to report when the user is inactive for a timeout
+   */
+  watch(timeoutInMilliseconds: number): void {
+    this.post({ type: "watch", clockId: this.clockId, timeoutInMilliseconds });
+  }
+
+  /**
+   * Stops the reports of a timeout
+   */
+  unwatch(timeoutInMilliseconds: number): void {
+    this.post({
+      type: "unwatch",
+      clockId: this.clockId,
+      timeoutInMilliseconds,
+    });
+  }
+
+  /**
+   * Disconnects from the worker, terminating it when it is dedicated
+   */
+  close(): void {
+    this.post({ type: "disconnect" });
+    this.port.removeEventListener("message", this.messageListener);
+    this.worker.removeEventListener("error", this.errorListener);
+
+    if ("port" in this.worker) {
+      this.worker.port.close();
+    } else {
+      this.worker.terminate();
+    }
+  }
+
+  private post(request: IdleClockRequest): void {
+    try {
+      this.port.postMessage(request);
+    } catch (err) {
+      this.logger.error("Failed to post idle clock message", err);
+    }
+  }
+}
@@ -3,3 +3,51 @@ export {
   InactifyContext,
   useInactify,
 } from "./InactifyProvider";
+export { useActiveTabs, useIsOnlyTab } from "./hooks/use-active-tabs";
+export { useIdleCountdown } from "./hooks/use-idle-countdown";
+export { useIdleTimer } from "./hooks/use-idle-timer";
+export { useSessionTimeRemaining } from "./hooks/use-session-time-remaining";
+export type { InactifyProviderOptions } from "./InactifyProvider";
+export type { IdleCountdownState } from "./hooks/use-idle-countdown";
+export type { IdleTimerOptions, IdleTimerState } from "./hooks/use-idle-timer";
+export type {
+  SessionTimeRemaining,
+  SessionTimeRemainingOptions,
+} from "./hooks/use-session-time-remaining";
+export type { Logger, LogLevel, LogMetadata } from "./debug/logger";
+export type { IdleClockOptions } from "./idle-clock/idle-clock";
+export type { ActivityDetectorOptions } from "./managers/activity-detector";
+export type {
+  ActivityListener,
+  ActivityMetadata,
+  ActivitySource,
+  MarkActiveOptions,
+  SessionEndEvent,
+} from "./managers/activity-manager";
+export type {
+  ActivityHistoryEntry,
+  ActivityRecorderOptions,
+  ActivityStats,
+  TabActivityStats,
+} from "./managers/activity-recorder";
+export type {
+  KeepAliveOptions,
+  KeepAliveState,
+} from "./managers/session-keep-alive";
+export type {
+  IdleCountdownOptions,
+  IdleStage,
+} from "./managers/idle-countdown";
+export type {
+  VisibilityOptions,
+  VisibilityState,
+} from "./managers/visibility-tracker";
+export type { WakeUpOptions } from "./managers/wake-up-detector";
+export type { TabTrackingOptions } from "./managers/tab-manager";
+export type { StorageApi } from "./storage/storage-manager";
+export type {
+  SyncMessage,
+  SyncTransport,
+  SyncTransportKind,
+} from "./sync/sync-transport";
+export type { ClockOptions } from "./utils/monotonic-clock";
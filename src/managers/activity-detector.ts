@@ -0,0 +1,109 @@
+import { Logger } from "../debug/logger";
+
+const DEFAULT_ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "wheel",
+  "scroll",
+  "touchstart",
+  "pointerdown",
+] as const;
+const DEFAULT_THROTTLE_IN_MILLISECONDS = 1000;
+
+export interface ActivityDetectorOptions {
+  /** DOM events that count as user activity */
+  events?: readonly string[] | undefined;
+  /** Minimum time between two reported activities in milliseconds */
+  throttleInMilliseconds?: number | undefined;
+  /** Element the event listeners are attached to (defaults to document) */
+  target?: EventTarget | undefined;
+}
+
+/**
+ * Listens for DOM events and reports them as user activity,
+ * throttled so that high frequency events (e.g. mousemove) are only
+ * reported once per throttle interval
+ */
+export class ActivityDetector {
+  private readonly events: readonly string[];
+  private readonly throttleInMilliseconds: number;
+  private readonly target: EventTarget | undefined;
+  private readonly onActivity: (event: Event) => void;
+  private readonly logger: Logger;
+
+  private lastReported = 0;
+  private isListening = false;
+  private eventListener = (event: Event) => this.handleEvent(event);
+
+  constructor(
+    onActivity: (event: Event) => void,
+    options: ActivityDetectorOptions = {},
+    logger: Logger = Logger
+  ) {
+    this.onActivity = onActivity;
+    this.logger = logger;
+    this.events = options.events ?? DEFAULT_ACTIVITY_EVENTS;
+    this.throttleInMilliseconds =
+      options.throttleInMilliseconds ?? DEFAULT_THROTTLE_IN_MILLISECONDS;
+    this.target =
+      options.target ??
+      (typeof document !== "undefined" ? document : undefined);
+  }
+
+  /**
+   * Starts listening for activity events on the target
+   */
+  start(): void {
+    if (this.isListening || !this.target) {
+      return;
+    }
+
+    for (const event of this.events) {
+      this.target.addEventListener(event, this.eventListener, {
+        capture: true,
+        passive: true,
+      });
+    }
+
+    this.isListening = true;
+    this.logger.info("Activity detection started", { events: this.events });
+  }
+
+  /**
+   * Removes all activity event listeners from the target
+   */
+  stop(): void {
+    if (!this.isListening || !this.target) {
+      return;
+    }
+
+    for (const event of this.events) {
+      this.target.removeEventListener(event, this.eventListener, {
+        capture: true,
+      });
+    }
+
+    this.isListening = false;
+    this.logger.info("Activity detection stopped");
+  }
+
+  /**
+   * Reports activity unless one was already reported within the throttle interval
+   */
+  private handleEvent(event: Event): void {
+    const now = Date.now();
+
+    if (now - this.lastReported < this.throttleInMilliseconds) {
+      return;
+    }
+
+    this.lastReported = now;
+
+    try {
+      this.onActivity(event);
+    } catch (err) {
+      this.logger.error("Error while reporting detected activity", err);
+    }
+  }
+}
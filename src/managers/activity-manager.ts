@@ -1,14 +1,184 @@
 import { Logger } from "../debug/logger";
-import { StorageManager } from "../storage/storage-manager";
+import { IdleClock, type IdleClockOptions } from "../idle-clock/idle-clock";
+import type { IdleClockEvent } from "../idle-clock/idle-clock-protocol";
+import { StorageManager, type StorageApi } from "../storage/storage-manager";
+import {
+  isFiniteNumber,
+  isRecord,
+  TIMESTAMP_SCHEMA,
+  type StorageSchema,
+} from "../storage/storage-schema";
+import { createSyncTransport } from "../sync/create-sync-transport";
+import type {
+  SyncMessage,
+  SyncTransport,
+  SyncTransportKind,
+} from "../sync/sync-transport";
+import { getLocalStorage, isBrowser } from "../utils/environment";
+import { MonotonicClock, type ClockOptions } from "../utils/monotonic-clock";
+import {
+  ActivityDetector,
+  type ActivityDetectorOptions,
+} from "./activity-detector";
+import {
+  ActivityRecorder,
+  type ActivityRecorderOptions,
+} from "./activity-recorder";
+import { SessionKeepAlive, type KeepAliveOptions } from "./session-keep-alive";
 import { TabManager } from "./tab-manager";
+import {
+  VisibilityTracker,
+  type VisibilityOptions,
+  type VisibilityState,
+} from "./visibility-tracker";
+import { WakeUpDetector, type WakeUpOptions } from "./wake-up-detector";
 
 const BASE_STORAGE_KEY_LAST_ACTIVE = "last_active";
+const BASE_STORAGE_KEY_LAST_ACTIVE_METADATA = "last_active_metadata";
+const BASE_STORAGE_KEY_PAUSED = "paused";
+const BASE_STORAGE_KEY_SESSION_ENDED = "session_ended";
+const BASE_STORAGE_KEY_SESSION_STARTED = "session_started";
+const BASE_STORAGE_KEY_ACTIVITY_HISTORY = "activity_history";
+const BASE_STORAGE_KEY_KEEP_ALIVE = "keep_alive";
+/** Tabs that persisted per-tab keys, so they can be removed once closed */
+const BASE_STORAGE_KEY_TAB_IDS = "inactify_tab_ids";
+const BASE_SYNC_CHANNEL_NAME = "inactify_sync";
+/** All keys a manager persists, followed by "_<tabId>" in per-tab mode */
+const BASE_STORAGE_KEYS = [
+  BASE_STORAGE_KEY_LAST_ACTIVE,
+  BASE_STORAGE_KEY_LAST_ACTIVE_METADATA,
+  BASE_STORAGE_KEY_PAUSED,
+  BASE_STORAGE_KEY_SESSION_ENDED,
+  BASE_STORAGE_KEY_SESSION_STARTED,
+  BASE_STORAGE_KEY_ACTIVITY_HISTORY,
+  BASE_STORAGE_KEY_KEEP_ALIVE,
+];
+const DEFAULT_CLOCK_CHECK_INTERVAL_IN_MILLISECONDS = 5 * 1000;
+const SESSION_EXPIRED_REASON = "expired";
+// Longer delays overflow and make setTimeout fire immediately
+const MAX_TIMER_DELAY_IN_MILLISECONDS = 2 ** 31 - 1;
 
 export interface ActivityManagerOptions {
   /** Custom prefix for storage keys */
   storagePrefix?: string | undefined;
+  /** Name of the activity scope, gives the scope its own storage keys */
+  scope?: string | undefined;
+  /** Manager of the parent scope that activity of this scope rolls up into */
+  parent?: ActivityManager | undefined;
+  /** Storage used to persist activity (defaults to localStorage) */
+  storage?: StorageApi | undefined;
   /** Whether to sync activity across all tabs */
   syncAcrossTabs: boolean;
+  /** Transport used to sync activity across tabs (defaults to "auto") */
+  syncTransport?: SyncTransportKind | SyncTransport | undefined;
+  /** Automatically mark activity on DOM events (disabled when undefined) */
+  activityDetection?: ActivityDetectorOptions | undefined;
+  /** Record an activity history with usage statistics (disabled when undefined) */
+  activityRecording?: ActivityRecorderOptions | undefined;
+  /** Extend the server session on activity (disabled when undefined) */
+  keepAlive?: KeepAliveOptions | undefined;
+  /** Maximum session length in milliseconds, however active the user is (unlimited when undefined) */
+  absoluteTimeoutInMilliseconds?: number | undefined;
+  /** How page visibility affects the idle state */
+  visibility?: VisibilityOptions | undefined;
+  /** Detection of wall clock jumps and future timestamps */
+  clock?: ClockOptions | undefined;
+  /** Rechecks of the inactivity timers after the page may have been asleep */
+  wakeUp?: WakeUpOptions | undefined;
+  /** Run the inactivity timeouts in a worker shared by all tabs (disabled when undefined) */
+  idleClock?: IdleClockOptions | undefined;
+  /** Logger used for diagnostics (defaults to a silent logger) */
+  logger?: Logger | undefined;
+  /** Tab manager of the current tab (created and owned by the manager when undefined) */
+  tabManager?: TabManager | undefined;
+}
+
+/**
+ * What caused an activity. Activity synced from another tab
+ * has the source "remote".
+ */
+export type ActivitySource =
+  "pointer" | "keyboard" | "visibility" | "programmatic" | "remote";
+
+export interface ActivityMetadata {
+  /** What caused the activity */
+  source: ActivitySource;
+  /** ID of the tab the activity originated from */
+  tabId?: string | undefined;
+  /** Optional custom label, e.g. the feature the user interacted with */
+  label?: string | undefined;
+}
+
+export interface MarkActiveOptions {
+  /** What caused the activity (defaults to "programmatic") */
+  source?: Exclude<ActivitySource, "remote"> | undefined;
+  /** Optional custom label, e.g. the feature the user interacted with */
+  label?: string | undefined;
+}
+
+interface StoredActivityMetadata extends ActivityMetadata {
+  /** Time of the activity in milliseconds */
+  timestamp: number;
+  /** Whether the time was shifted on resume rather than set by an activity */
+  shifted?: boolean | undefined;
+}
+
+/**
+ * Listener of lastActive updates. The metadata is undefined when the time
+ * changed without an activity, e.g. when the storage was cleared.
+ */
+export type ActivityListener = (
+  lastActive: number,
+  metadata: ActivityMetadata | undefined
+) => void;
+
+export interface SessionEndEvent {
+  /** Optional reason why the session ended (e.g. "idle" or "logout") */
+  reason?: string | undefined;
+  /** ID of the tab that ended the session */
+  tabId?: string | undefined;
+  /** Time the session ended in milliseconds */
+  endedAt: number;
+}
+
+interface PausedState {
+  /** Time idle tracking was paused in milliseconds */
+  pausedAt: number;
+}
+
+const ACTIVITY_METADATA_SCHEMA: StorageSchema<StoredActivityMetadata> = {
+  version: 1,
+  validate: (value): value is StoredActivityMetadata =>
+    isRecord(value) &&
+    isFiniteNumber(value["timestamp"]) &&
+    typeof value["source"] === "string",
+};
+
+const PAUSED_STATE_SCHEMA: StorageSchema<PausedState> = {
+  version: 1,
+  validate: (value): value is PausedState =>
+    isRecord(value) && isFiniteNumber(value["pausedAt"]),
+};
+
+const SESSION_END_SCHEMA: StorageSchema<SessionEndEvent> = {
+  version: 1,
+  validate: (value): value is SessionEndEvent =>
+    isRecord(value) && isFiniteNumber(value["endedAt"]),
+};
+
+const TAB_IDS_SCHEMA: StorageSchema<string[]> = {
+  version: 1,
+  validate: (value): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string"),
+};
+
+interface InactivityWatcher {
+  /** Callbacks to invoke when the timeout is reached */
+  callbacks: Set<() => void>;
+  /** Timer of the pending timeout, undefined once it fired */
+  timerId?: number | undefined;
+  /** Whether the timeout is pending in the idle clock worker */
+  awaitsIdleClock?: boolean | undefined;
 }
 
 /**
@@ -18,63 +188,590 @@ export interface ActivityManagerOptions {
 export class ActivityManager {
   private options: ActivityManagerOptions;
   private readonly _storageKey: string;
+  private readonly metadataStorageKey: string;
+  private readonly pausedStorageKey: string;
+  private readonly sessionEndedStorageKey: string;
+  private readonly sessionStartedStorageKey: string;
+  private readonly storage: StorageApi | undefined;
+  private readonly activityDetector: ActivityDetector | undefined;
+  private readonly activityRecorder: ActivityRecorder | undefined;
+  private readonly sessionKeepAlive: SessionKeepAlive | undefined;
+  private readonly visibilityTracker: VisibilityTracker;
+  private readonly wakeUpDetector: WakeUpDetector;
+  private readonly logger: Logger;
+  private readonly tabManager: TabManager;
+  private readonly ownsTabManager: boolean;
+  private readonly clock: MonotonicClock;
 
-  private storageListener: ((event: StorageEvent) => void) | undefined;
-  private listeners = new Set<(lastActive: number) => void>();
-  private isStorageListenerActive = false;
-  private inactivityWatchers = new Map<
-    number,
-    { callbacks: Set<() => void>; timerId?: number | undefined }
-  >();
+  private syncTransport: SyncTransport | undefined;
+  private idleClock: IdleClock | undefined;
+  private clockCheckIntervalId: ReturnType<typeof setInterval> | undefined;
+  private sessionExpiryTimerId: ReturnType<typeof setTimeout> | undefined;
+  private unsubscribeFromSync: (() => void) | undefined;
+  private listeners = new Set<ActivityListener>();
+  private pauseListeners = new Set<(isPaused: boolean) => void>();
+  private sessionEndListeners = new Set<(event: SessionEndEvent) => void>();
+  private sessionExpiryListeners = new Set<(event: SessionEndEvent) => void>();
+  private inactivityWatchers = new Map<number, InactivityWatcher>();
   private internalListener = (lastActive: number) =>
     this.rescheduleInactivityTimers(lastActive);
 
   constructor(options: ActivityManagerOptions) {
     this.options = options;
-    if (options.storagePrefix) {
-      this._storageKey = `${options.storagePrefix}_${BASE_STORAGE_KEY_LAST_ACTIVE}`;
+    this.logger = options.logger ?? Logger;
+    this.storage = options.storage ?? getLocalStorage();
+    this.clock = new MonotonicClock(
+      options.clock ?? {},
+      (deltaInMilliseconds) => this.handleClockJump(deltaInMilliseconds)
+    );
+    this.visibilityTracker = new VisibilityTracker(this.logger);
+    this.wakeUpDetector = new WakeUpDetector(
+      (reason) => {
+        this.logger.info("Rechecking inactivity after wake-up", { reason });
+        this.recheckInactivityTimers();
+      },
+      options.wakeUp,
+      this.logger
+    );
+    this.ownsTabManager = !options.tabManager;
+    this.tabManager =
+      options.tabManager ??
+      new TabManager({
+        storage: this.storage,
+        storagePrefix: options.storagePrefix,
+        logger: this.logger,
+      });
+    this._storageKey = this.createStorageKey(BASE_STORAGE_KEY_LAST_ACTIVE);
+    this.metadataStorageKey = this.createStorageKey(
+      BASE_STORAGE_KEY_LAST_ACTIVE_METADATA
+    );
+    this.pausedStorageKey = this.createStorageKey(BASE_STORAGE_KEY_PAUSED);
+    this.sessionEndedStorageKey = this.createStorageKey(
+      BASE_STORAGE_KEY_SESSION_ENDED
+    );
+    this.sessionStartedStorageKey = this.createStorageKey(
+      BASE_STORAGE_KEY_SESSION_STARTED
+    );
+
+    // Add internal listener to handle rescheduling inactivity timers
+    this.listeners.add(this.internalListener);
+
+    // Nothing is tracked during server-side rendering
+    if (!isBrowser()) {
+      return;
+    }
+
+    this.tabManager.registerCurrentTab();
+
+    // Keys shared by all tabs are never orphaned
+    if (!this.options.syncAcrossTabs) {
+      this.recordLegacyTabKeys();
+      this.removeOrphanedTabKeys();
+      this.registerTabKeys();
+    }
+
+    this.storeMissingTimestamps();
+    this.scheduleSessionExpiry();
+
+    // Jumps are also detected on every read of the clock, the interval
+    // catches them while nothing happens
+    this.clockCheckIntervalId = setInterval(
+      () => this.now(),
+      options.clock?.checkIntervalInMilliseconds ??
+        DEFAULT_CLOCK_CHECK_INTERVAL_IN_MILLISECONDS
+    );
+
+    if (options.idleClock) {
+      try {
+        this.idleClock = new IdleClock(
+          this._storageKey,
+          options.idleClock,
+          (event) => this.handleIdleClockEvent(event),
+          () => this.handleIdleClockError(),
+          this.logger
+        );
+      } catch (err) {
+        this.logger.error(
+          "Failed to start the idle clock worker, using timers of the tab",
+          err
+        );
+      }
+    }
+
+    if (options.syncAcrossTabs) {
+      this.setupSyncTransport();
+    }
+
+    if (options.activityDetection) {
+      this.activityDetector = new ActivityDetector(
+        (event) =>
+          this.markActive(undefined, {
+            source: event.type.startsWith("key") ? "keyboard" : "pointer",
+          }),
+        options.activityDetection,
+        this.logger
+      );
+      this.activityDetector.start();
+    }
+
+    if (options.activityRecording) {
+      this.activityRecorder = new ActivityRecorder(
+        this,
+        {
+          ...options.activityRecording,
+          storage: this.storage,
+          storageKey: this.createStorageKey(BASE_STORAGE_KEY_ACTIVITY_HISTORY),
+          tabId: this.tabManager.tabId,
+        },
+        this.logger
+      );
+      this.activityRecorder.start();
+    }
+
+    if (options.keepAlive) {
+      this.sessionKeepAlive = new SessionKeepAlive(
+        this,
+        {
+          ...options.keepAlive,
+          storage: this.storage,
+          storageKey: this.createStorageKey(BASE_STORAGE_KEY_KEEP_ALIVE),
+          tabId: this.tabManager.tabId,
+        },
+        this.logger
+      );
+      this.sessionKeepAlive.start();
+    }
+
+    this.visibilityTracker.subscribe((state, previous) =>
+      this.handleVisibilityChange(state, previous)
+    );
+    this.visibilityTracker.start();
+    this.wakeUpDetector.start();
+  }
+
+  /**
+   * Marks the current time as the last activity time, and in the parent
+   * scope if set. Ignored after the session has ended until it is reset.
+   * @param timestamp Time of the activity (defaults to now)
+   * @param options Source and label stored and synced with the activity
+   */
+  markActive(timestamp?: Date, options: MarkActiveOptions = {}): void {
+    if (this.isSessionEnded()) {
+      return;
+    }
+
+    let time = timestamp?.getTime() ?? this.now();
+
+    if (this.isInFuture(time)) {
+      this.logger.warning("Ignoring activity time in the future", {
+        timestamp: time,
+      });
+      time = this.now();
+    }
+
+    const source = options.source ?? "programmatic";
+    const metadata: ActivityMetadata = {
+      source,
+      tabId: this.tabManager.tabId,
+      label: options.label,
+    };
+
+    // Written before the timestamp, so other tabs can read it on the storage event
+    this.setLastActivityMetadata({ ...metadata, timestamp: time });
+    StorageManager.setVersioned(
+      this._storageKey,
+      time,
+      TIMESTAMP_SCHEMA,
+      this.storage,
+      this.logger
+    );
+    this.syncTransport?.post({
+      type: "activity",
+      tabId: metadata.tabId,
+      timestamp: time,
+      source,
+      label: metadata.label,
+    });
+    this.activityRecorder?.recordActivity(time);
+    this.notifyListeners(time, metadata);
+    this.options.parent?.markActive(new Date(time), options);
+  }
+
+  /**
+   * Gets the activity recorder, if activity recording is enabled
+   */
+  getActivityRecorder(): ActivityRecorder | undefined {
+    return this.activityRecorder;
+  }
+
+  /**
+   * Gets the session keepalive, if enabled
+   */
+  getSessionKeepAlive(): SessionKeepAlive | undefined {
+    return this.sessionKeepAlive;
+  }
+
+  /**
+   * Ends the session in this and every other tab.
+   * Activity is no longer reported until resetSession is called.
+   * @param reason Optional reason passed to session end subscribers
+   */
+  endSession(reason?: string): void {
+    if (this.isSessionEnded()) {
+      return;
+    }
+
+    const event: SessionEndEvent = {
+      reason,
+      tabId: this.tabManager.tabId,
+      endedAt: this.now(),
+    };
+
+    StorageManager.setVersioned(
+      this.sessionEndedStorageKey,
+      event,
+      SESSION_END_SCHEMA,
+      this.storage,
+      this.logger
+    );
+    this.syncTransport?.post({ type: "logout", tabId: event.tabId, reason });
+    this.handleSessionEnd(event);
+  }
+
+  /**
+   * Starts a new session after it has ended and marks the user as active
+   */
+  resetSession(): void {
+    StorageManager.remove(
+      this.sessionEndedStorageKey,
+      this.storage,
+      this.logger
+    );
+    StorageManager.setVersioned(
+      this.sessionStartedStorageKey,
+      this.now(),
+      TIMESTAMP_SCHEMA,
+      this.storage,
+      this.logger
+    );
+    this.markActive();
+  }
+
+  /**
+   * Removes everything this manager persisted, including the per-tab keys
+   * of all tabs, the heartbeat of this tab and the stored tab ID.
+   * Keys of other storage prefixes and scopes are kept.
+   */
+  clearStorage(): void {
+    const wasPaused = this.isPaused();
+    const prefix = this.getKeyPrefix();
+    const keys = new Set([
+      `${prefix}${BASE_STORAGE_KEY_TAB_IDS}`,
+      `${prefix}${BASE_SYNC_CHANNEL_NAME}`,
+    ]);
+
+    this.recordLegacyTabKeys();
+    const tabIds = this.getTabIdsWithKeys();
+
+    if (this.options.syncAcrossTabs) {
+      for (const baseKey of BASE_STORAGE_KEYS) {
+        keys.add(`${prefix}${baseKey}`);
+      }
     } else {
-      this._storageKey = BASE_STORAGE_KEY_LAST_ACTIVE;
+      tabIds.push(this.tabManager.tabId);
+    }
+
+    for (const tabId of tabIds) {
+      for (const key of this.getTabStorageKeys(tabId)) {
+        keys.add(key);
+      }
     }
 
-    TabManager.registerCurrentTab();
+    StorageManager.removeAllWithCondition(
+      (key) => keys.has(key),
+      this.storage,
+      this.logger
+    );
+    this.tabManager.clearStorage();
 
-    if (!options.syncAcrossTabs) {
-      this._storageKey = `${this._storageKey}_${TabManager.tabId}`;
+    // The tab keeps writing its keys until it is closed
+    if (!this.options.syncAcrossTabs && isBrowser()) {
+      this.registerTabKeys();
     }
 
-    // Add internal listener to handle rescheduling inactivity timers
-    this.listeners.add(this.internalListener);
+    this.logger.info("Storage cleared");
+    this.handleStorageCleared(wasPaused);
+    this.syncTransport?.post({
+      type: "clear",
+      tabId: this.tabManager.tabId,
+      wasPaused,
+    });
   }
 
   /**
-   * Marks the current time as the last activity time
+   * Clears the storage and starts over: idle tracking is resumed,
+   * a new session starts and the user is marked as active
    */
-  markActive(timestamp?: Date): void {
-    const time = timestamp?.getTime() ?? Date.now();
-    StorageManager.set(this._storageKey, time);
-    this.notifyListeners(time);
+  reset(): void {
+    this.clearStorage();
+    this.resetSession();
   }
 
   /**
-   * Gets the last activity timestamp
+   * Gets the time the current session started in milliseconds.
+   * A stored time in the future is replaced with the current time.
    */
-  getLastActivityTime() {
-    return StorageManager.get<number>(this._storageKey) ?? Date.now();
+  getSessionStartTime(): number {
+    const now = this.now();
+    const stored = StorageManager.getVersioned(
+      this.sessionStartedStorageKey,
+      TIMESTAMP_SCHEMA,
+      this.storage,
+      this.logger
+    );
+
+    if (stored === undefined) {
+      return now;
+    }
+
+    if (this.isInFuture(stored)) {
+      this.logger.warning("Replacing invalid session start time", {
+        sessionStartedAt: stored,
+      });
+      StorageManager.setVersioned(
+        this.sessionStartedStorageKey,
+        now,
+        TIMESTAMP_SCHEMA,
+        this.storage,
+        this.logger
+      );
+      return now;
+    }
+
+    return stored;
+  }
+
+  /**
+   * Gets the time left until the absolute session lifetime ends in milliseconds
+   * (undefined without absoluteTimeoutInMilliseconds)
+   */
+  getRemainingSessionTime(): number | undefined {
+    const { absoluteTimeoutInMilliseconds } = this.options;
+
+    if (absoluteTimeoutInMilliseconds === undefined) {
+      return undefined;
+    }
+
+    return Math.max(
+      0,
+      this.getSessionStartTime() + absoluteTimeoutInMilliseconds - this.now()
+    );
+  }
+
+  /**
+   * Subscribes to the session reaching its absolute lifetime in this or any
+   * other tab. The session then ends with the reason "expired".
+   * @param callback Callback to invoke with the session end details
+   * @returns Unsubscribe function
+   */
+  subscribeToSessionExpiry(
+    callback: (event: SessionEndEvent) => void
+  ): () => void {
+    this.sessionExpiryListeners.add(callback);
+
+    return () => {
+      this.sessionExpiryListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Checks if the session has ended
+   */
+  isSessionEnded(): boolean {
+    return this.getSessionEnd() !== undefined;
+  }
+
+  /**
+   * Subscribes to the session ending in this or any other tab
+   * @param callback Callback to invoke with the session end details
+   * @returns Unsubscribe function
+   */
+  subscribeToSessionEnd(
+    callback: (event: SessionEndEvent) => void
+  ): () => void {
+    this.sessionEndListeners.add(callback);
+
+    return () => {
+      this.sessionEndListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Pauses idle tracking. Inactivity timers stop until resume is called
+   * and the paused time does not count as inactivity.
+   */
+  pause(): void {
+    if (this.isPaused()) {
+      return;
+    }
+
+    const pausedAt = this.now();
+    StorageManager.setVersioned(
+      this.pausedStorageKey,
+      { pausedAt },
+      PAUSED_STATE_SCHEMA,
+      this.storage,
+      this.logger
+    );
+    this.syncTransport?.post({
+      type: "pause",
+      tabId: this.tabManager.tabId,
+      pausedAt,
+    });
+    this.handlePauseChange();
+  }
+
+  /**
+   * Resumes idle tracking, continuing the idle clock from where it was paused
+   */
+  resume(): void {
+    const pausedAt = this.getPausedAt();
+
+    if (pausedAt === undefined) {
+      return;
+    }
+
+    let lastActive: number | undefined = this.getLastActivityTime();
+
+    // Shift the last activity by the paused duration so the paused time is not counted
+    if (lastActive < pausedAt) {
+      lastActive += this.now() - pausedAt;
+      this.shiftLastActivity(lastActive);
+    } else {
+      lastActive = undefined;
+    }
+
+    StorageManager.remove(this.pausedStorageKey, this.storage, this.logger);
+    this.syncTransport?.post({
+      type: "resume",
+      tabId: this.tabManager.tabId,
+      lastActive,
+    });
+    this.handlePauseChange();
+  }
+
+  /**
+   * Checks if idle tracking is paused
+   */
+  isPaused(): boolean {
+    return this.getPausedAt() !== undefined;
+  }
+
+  /**
+   * Subscribes to idle tracking being paused or resumed
+   * @param callback Callback to invoke with the new paused state
+   * @returns Unsubscribe function
+   */
+  subscribeToPause(callback: (isPaused: boolean) => void): () => void {
+    this.pauseListeners.add(callback);
+
+    return () => {
+      this.pauseListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Gets the last activity timestamp. A stored timestamp in the future
+   * (e.g. edited by hand or written before the clock was set back) is
+   * replaced with the current time.
+   */
+  getLastActivityTime(): number {
+    const now = this.now();
+    const stored = StorageManager.getVersioned(
+      this._storageKey,
+      TIMESTAMP_SCHEMA,
+      this.storage,
+      this.logger
+    );
+
+    if (stored === undefined) {
+      return now;
+    }
+
+    if (this.isInFuture(stored)) {
+      this.logger.warning("Replacing invalid last activity time", {
+        lastActive: stored,
+      });
+      // Otherwise the user would look active until that time
+      StorageManager.setVersioned(
+        this._storageKey,
+        now,
+        TIMESTAMP_SCHEMA,
+        this.storage,
+        this.logger
+      );
+      return now;
+    }
+
+    return stored;
+  }
+
+  /**
+   * Gets the source, tab and label of the last activity, if recorded.
+   * Activity of other tabs has the source "remote".
+   */
+  getLastActivityMetadata(): ActivityMetadata | undefined {
+    const stored = this.getStoredActivityMetadata();
+
+    if (!stored) {
+      return undefined;
+    }
+
+    return {
+      source:
+        stored.tabId !== undefined && stored.tabId !== this.tabManager.tabId
+          ? "remote"
+          : stored.source,
+      tabId: stored.tabId,
+      label: stored.label,
+    };
   }
 
   /**
    * Checks if the user is inactive based on a timeout in milliseconds
    */
   isInactiveFor(timeoutInMilliseconds: number): boolean {
-    return Date.now() - this.getLastActivityTime() >= timeoutInMilliseconds;
+    if (this.isInactiveBecauseHidden()) {
+      return true;
+    }
+
+    return this.getInactiveDuration() >= timeoutInMilliseconds;
   }
 
   /**
-   * Gets the duration of inactivity in milliseconds
+   * Gets the duration of inactivity in milliseconds (excluding the time paused)
    */
-  getInactiveDuration(): number | null {
-    return Date.now() - this.getLastActivityTime();
+  getInactiveDuration(): number {
+    const now = this.getPausedAt() ?? this.now();
+    return Math.max(0, now - this.getLastActivityTime());
+  }
+
+  /**
+   * Gets the current page visibility and focus state
+   */
+  getVisibilityState(): VisibilityState {
+    return this.visibilityTracker.getState();
+  }
+
+  /**
+   * Subscribes to page visibility and focus changes
+   * @param callback Callback to invoke with the new state
+   * @returns Unsubscribe function
+   */
+  subscribeToVisibility(
+    callback: (state: VisibilityState) => void
+  ): () => void {
+    return this.visibilityTracker.subscribe(callback);
   }
 
   /**
@@ -82,23 +779,14 @@ export class ActivityManager {
    * @param callback Callback to invoke on lastActive updates
    * @returns Unsubscribe function
    */
-  subscribe(callback: (lastActive: number) => void): () => void {
+  subscribe(callback: ActivityListener): () => void {
     this.listeners.add(callback);
 
-    // Set up storage listener if this is the first subscriber and sync is enabled
-    if (this.listeners.size === 1 && this.options.syncAcrossTabs) {
-      this.setupStorageListener();
-    }
-
     // Immediately notify the new listener with current value
-    callback(this.getLastActivityTime());
+    callback(this.getLastActivityTime(), this.getLastActivityMetadata());
 
     return () => {
       this.listeners.delete(callback);
-      // Remove storage listener if no more subscribers
-      if (this.listeners.size === 0 && this.options.syncAcrossTabs) {
-        this.removeStorageListener();
-      }
     };
   }
 
@@ -116,6 +804,7 @@ export class ActivityManager {
       this.inactivityWatchers.set(timeoutInMilliseconds, {
         callbacks: new Set(),
       });
+      this.idleClock?.watch(timeoutInMilliseconds);
     }
 
     const entry = this.inactivityWatchers.get(timeoutInMilliseconds);
@@ -143,6 +832,7 @@ export class ActivityManager {
         }
 
         this.inactivityWatchers.delete(timeoutInMilliseconds);
+        this.idleClock?.unwatch(timeoutInMilliseconds);
       }
     };
   }
@@ -151,8 +841,22 @@ export class ActivityManager {
    * Cleans up resources used by the ActivityManager
    */
   destroy(): void {
-    this.removeStorageListener();
+    this.activityDetector?.stop();
+    this.activityRecorder?.stop();
+    this.sessionKeepAlive?.stop();
+    this.visibilityTracker.stop();
+    this.wakeUpDetector.stop();
+    this.idleClock?.close();
+    this.idleClock = undefined;
+    this.removeSyncTransport();
+    clearInterval(this.clockCheckIntervalId);
+    this.clockCheckIntervalId = undefined;
     this.listeners.clear();
+    this.pauseListeners.clear();
+    this.sessionEndListeners.clear();
+    this.sessionExpiryListeners.clear();
+    clearTimeout(this.sessionExpiryTimerId);
+    this.sessionExpiryTimerId = undefined;
 
     // Clear all inactivity timers
     for (const [, entry] of this.inactivityWatchers) {
@@ -163,58 +867,575 @@ export class ActivityManager {
 
     this.inactivityWatchers.clear();
 
-    Logger.info("ActivityManager destroyed");
+    if (this.ownsTabManager) {
+      this.tabManager.destroy();
+    }
+
+    this.logger.info("ActivityManager destroyed");
   }
 
   /**
-   * Sets up the storage event listener for cross-tab activity synchronization
+   * Sets up the transport used for cross-tab activity synchronization
    */
-  private setupStorageListener(): void {
-    if (this.storageListener) {
+  private setupSyncTransport(): void {
+    if (this.syncTransport) {
       return;
     }
 
-    Logger.info("Setting up storage listener for activity sync across tabs");
-    this.storageListener = (event: StorageEvent) => {
-      if (event.key === this._storageKey && event.newValue) {
-        try {
-          Logger.info("Storage event detected for activity sync", {
-            key: event.key,
-            newValue: event.newValue,
-          });
-          const timestamp = parseInt(event.newValue);
-          this.notifyListeners(timestamp);
-          Logger.info("Activity synced from another tab");
-        } catch (err) {
-          Logger.error("Failed to parse activity timestamp", err);
+    const prefix = this.getKeyPrefix();
+
+    this.syncTransport = createSyncTransport(
+      this.options.syncTransport ?? "auto",
+      {
+        channelName: `${prefix}${BASE_SYNC_CHANNEL_NAME}`,
+        storage: this.storage,
+        activityKey: this._storageKey,
+        logger: this.logger,
+      }
+    );
+    this.unsubscribeFromSync = this.syncTransport.subscribe((message) =>
+      this.handleSyncMessage(message)
+    );
+    this.syncTransport.post({
+      type: "tab-joined",
+      tabId: this.tabManager.tabId,
+    });
+  }
+
+  /**
+   * Closes the sync transport
+   */
+  private removeSyncTransport(): void {
+    this.unsubscribeFromSync?.();
+    this.unsubscribeFromSync = undefined;
+    this.syncTransport?.close();
+    this.syncTransport = undefined;
+  }
+
+  /**
+   * Handles a message received from another tab
+   */
+  private handleSyncMessage(message: SyncMessage): void {
+    switch (message.type) {
+      case "activity": {
+        if (this.isSessionEnded()) {
+          return;
+        }
+
+        if (this.isInFuture(message.timestamp)) {
+          this.logger.warning(
+            "Ignoring activity in the future from another tab",
+            {
+              tabId: message.tabId,
+              timestamp: message.timestamp,
+            }
+          );
+          return;
+        }
+
+        // Older activity (e.g. delivered late) would make the timers fire early
+        if (message.timestamp < this.getLastActivityTime()) {
+          return;
         }
+
+        // Storage events carry no metadata, it is read from the storage instead
+        const stored = this.getStoredActivityMetadata();
+        const metadata: StoredActivityMetadata =
+          message.source === undefined &&
+          stored?.timestamp === message.timestamp
+            ? stored
+            : {
+                source: message.source ?? "programmatic",
+                tabId: message.tabId,
+                label: message.label,
+                timestamp: message.timestamp,
+              };
+
+        // Storage events also report the time shifted on resume, which is no activity
+        if (metadata.shifted) {
+          this.rescheduleInactivityTimers(message.timestamp);
+          return;
+        }
+
+        // Persist activity from other tabs when the storage is not shared (e.g. sessionStorage)
+        if (message.timestamp > this.getLastActivityTime()) {
+          this.setLastActivityMetadata(metadata);
+          StorageManager.setVersioned(
+            this._storageKey,
+            message.timestamp,
+            TIMESTAMP_SCHEMA,
+            this.storage,
+            this.logger
+          );
+        }
+        this.notifyListeners(message.timestamp, {
+          source: "remote",
+          tabId: metadata.tabId,
+          label: metadata.label,
+        });
+        this.logger.info("Activity synced from another tab", {
+          tabId: message.tabId,
+        });
+        break;
       }
-    };
+      case "pause":
+        // Persist the pause in case the storage is not shared
+        if (!this.isPaused()) {
+          StorageManager.setVersioned(
+            this.pausedStorageKey,
+            { pausedAt: message.pausedAt },
+            PAUSED_STATE_SCHEMA,
+            this.storage,
+            this.logger
+          );
+        }
+        this.handlePauseChange();
+        break;
+      case "resume":
+        // Persist the shifted last activity in case the storage is not shared,
+        // without notifying activity listeners as it is no new activity
+        if (
+          message.lastActive !== undefined &&
+          !this.isInFuture(message.lastActive) &&
+          message.lastActive > this.getLastActivityTime()
+        ) {
+          StorageManager.setVersioned(
+            this._storageKey,
+            message.lastActive,
+            TIMESTAMP_SCHEMA,
+            this.storage,
+            this.logger
+          );
+        }
+
+        StorageManager.remove(this.pausedStorageKey, this.storage, this.logger);
+        this.handlePauseChange();
+        break;
+      case "tab-joined":
+        this.logger.info("Tab joined", { tabId: message.tabId });
+        break;
+      case "clear":
+        this.logger.info("Storage cleared in another tab", {
+          tabId: message.tabId,
+        });
+        this.handleStorageCleared(message.wasPaused);
+        break;
+      case "logout": {
+        this.logger.info("Logout received from another tab", {
+          tabId: message.tabId,
+          reason: message.reason,
+        });
+
+        // Persist the session end in case the storage is not shared
+        let event = this.getSessionEnd();
+        if (!event) {
+          event = {
+            reason: message.reason,
+            tabId: message.tabId,
+            endedAt: this.now(),
+          };
+          StorageManager.setVersioned(
+            this.sessionEndedStorageKey,
+            event,
+            SESSION_END_SCHEMA,
+            this.storage,
+            this.logger
+          );
+        }
+
+        this.handleSessionEnd(event);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Gets the current time from the monotonic clock
+   */
+  private now(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Whether a timestamp lies further in the future than the clocks
+   * of two tabs can differ
+   */
+  private isInFuture(timestamp: number): boolean {
+    return timestamp > this.now() + this.clock.jumpThresholdInMilliseconds;
+  }
+
+  /**
+   * Re-evaluates the inactivity timers after the wall clock jumped,
+   * since they were scheduled for the previous time
+   */
+  private handleClockJump(deltaInMilliseconds: number): void {
+    this.logger.warning("Wall clock jump detected", { deltaInMilliseconds });
+
+    // Deferred, so a jump detected while marking activity does not
+    // evaluate the timers against the previous activity
+    setTimeout(() => this.recheckInactivityTimers(), 0);
+  }
+
+  /**
+   * Gets the prefix of all keys of this manager, made of the storage
+   * prefix and the scope name
+   */
+  private getKeyPrefix(): string {
+    return [this.options.storagePrefix, this.options.scope]
+      .filter(Boolean)
+      .map((part) => `${part}_`)
+      .join("");
+  }
+
+  /**
+   * Creates a storage key for this manager, honoring the storage prefix
+   * and the per-tab mode
+   */
+  private createStorageKey(baseKey: string): string {
+    const key = `${this.getKeyPrefix()}${baseKey}`;
+
+    return this.options.syncAcrossTabs
+      ? key
+      : `${key}_${this.tabManager.tabId}`;
+  }
+
+  /**
+   * Gets the per-tab keys a tab of this manager writes
+   */
+  private getTabStorageKeys(tabId: string): string[] {
+    return BASE_STORAGE_KEYS.map(
+      (baseKey) => `${this.getKeyPrefix()}${baseKey}_${tabId}`
+    );
+  }
+
+  /**
+   * Gets the tabs that persisted per-tab keys of this manager
+   */
+  private getTabIdsWithKeys(): string[] {
+    return (
+      StorageManager.getVersioned(
+        `${this.getKeyPrefix()}${BASE_STORAGE_KEY_TAB_IDS}`,
+        TAB_IDS_SCHEMA,
+        this.storage,
+        this.logger
+      ) ?? []
+    );
+  }
+
+  /**
+   * Persist the tabs that persisted per-tab keys of this manager
+   */
+  private setTabIdsWithKeys(tabIds: string[]): void {
+    StorageManager.setVersioned(
+      `${this.getKeyPrefix()}${BASE_STORAGE_KEY_TAB_IDS}`,
+      tabIds,
+      TAB_IDS_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
 
-    window.addEventListener("storage", this.storageListener);
+  /**
+   * Records that the current tab persists per-tab keys
+   */
+  private registerTabKeys(): void {
+    const tabIds = this.getTabIdsWithKeys();
+
+    if (!tabIds.includes(this.tabManager.tabId)) {
+      this.setTabIdsWithKeys([...tabIds, this.tabManager.tabId]);
+    }
+  }
+
+  /**
+   * Records the open tabs that persisted per-tab keys before the tabs were
+   * recorded. Tabs closed since then cannot be told apart from keys of the
+   * host application, so their keys are kept.
+   */
+  private recordLegacyTabKeys(): void {
+    const tabIds = this.getTabIdsWithKeys();
+    const keyPrefix = `${this.getKeyPrefix()}${BASE_STORAGE_KEY_LAST_ACTIVE}_`;
+    const metadataKey = `${this.getKeyPrefix()}${BASE_STORAGE_KEY_LAST_ACTIVE_METADATA}`;
+    const candidateTabIds = StorageManager.getKeys(this.storage, this.logger)
+      .filter(
+        (key) => key.startsWith(keyPrefix) && !key.startsWith(metadataKey)
+      )
+      .map((key) => key.slice(keyPrefix.length))
+      .filter((tabId) => !tabIds.includes(tabId));
+
+    // The active tabs are only read once unrecorded keys are found
+    if (candidateTabIds.length === 0) {
+      return;
+    }
+
+    const activeTabIds = new Set(this.tabManager.getActiveTabIds());
+    const legacyTabIds = candidateTabIds.filter((tabId) =>
+      activeTabIds.has(tabId)
+    );
+
+    if (legacyTabIds.length > 0) {
+      this.setTabIdsWithKeys([...tabIds, ...legacyTabIds]);
+    }
+  }
+
+  /**
+   * Removes the per-tab keys of tabs that are no longer open. Only the keys
+   * of tabs recorded by registerTabKeys are removed, so keys of the host
+   * application that merely look alike are kept.
+   */
+  private removeOrphanedTabKeys(): void {
+    const tabIds = this.getTabIdsWithKeys();
+    const otherTabIds = tabIds.filter(
+      (tabId) => tabId !== this.tabManager.tabId
+    );
+
+    // The active tabs are only read once keys of other tabs are recorded
+    if (otherTabIds.length === 0) {
+      return;
+    }
+
+    const activeTabIds = new Set(this.tabManager.getActiveTabIds());
+    const closedTabIds = new Set(
+      otherTabIds.filter((tabId) => !activeTabIds.has(tabId))
+    );
+
+    if (closedTabIds.size === 0) {
+      return;
+    }
+
+    const keys = new Set(
+      [...closedTabIds].flatMap((tabId) => this.getTabStorageKeys(tabId))
+    );
+
+    StorageManager.removeAllWithCondition(
+      (key) => keys.has(key),
+      this.storage,
+      this.logger
+    );
+    this.setTabIdsWithKeys(tabIds.filter((tabId) => !closedTabIds.has(tabId)));
   }
 
   /**
-   * Removes the storage listener
+   * Gets the time idle tracking was paused, if paused
    */
-  private removeStorageListener(): void {
-    if (this.storageListener && this.isStorageListenerActive) {
-      window.removeEventListener("storage", this.storageListener);
-      this.storageListener = undefined;
-      Logger.info("Storage listener removed");
+  private getPausedAt(): number | undefined {
+    return StorageManager.getVersioned(
+      this.pausedStorageKey,
+      PAUSED_STATE_SCHEMA,
+      this.storage,
+      this.logger
+    )?.pausedAt;
+  }
+
+  /**
+   * Gets the details of the ended session, if ended
+   */
+  private getSessionEnd(): SessionEndEvent | undefined {
+    return StorageManager.getVersioned(
+      this.sessionEndedStorageKey,
+      SESSION_END_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
+  /**
+   * Stops the inactivity timers and notifies session end listeners
+   */
+  private handleSessionEnd(event: SessionEndEvent): void {
+    this.logger.info("Session ended", {
+      reason: event.reason,
+      tabId: event.tabId,
+    });
+
+    this.rescheduleInactivityTimers(this.getLastActivityTime());
+
+    for (const listener of this.sessionEndListeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        this.logger.error("Error in session end listener", err);
+      }
+    }
+
+    if (event.reason !== SESSION_EXPIRED_REASON) {
+      return;
+    }
+
+    for (const listener of this.sessionExpiryListeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        this.logger.error("Error in session expiry listener", err);
+      }
     }
   }
 
+  /**
+   * Starts the idle clock and the session lifetime now if they have not
+   * been recorded yet, otherwise they would be measured from every new read
+   */
+  private storeMissingTimestamps(): void {
+    for (const key of [this._storageKey, this.sessionStartedStorageKey]) {
+      if (
+        StorageManager.getString(key, this.storage, this.logger) === undefined
+      ) {
+        StorageManager.setVersioned(
+          key,
+          this.now(),
+          TIMESTAMP_SCHEMA,
+          this.storage,
+          this.logger
+        );
+      }
+    }
+  }
+
+  /**
+   * Restarts the idle clock and the session lifetime after the storage was
+   * cleared in this or another tab. Pause listeners are notified of the
+   * removed pause, activity listeners (e.g. of the session end state)
+   * of the new last activity time.
+   */
+  private handleStorageCleared(wasPaused: boolean): void {
+    // Still stored when the storage is not shared with the clearing tab
+    StorageManager.remove(this.pausedStorageKey, this.storage, this.logger);
+    StorageManager.remove(
+      this.sessionEndedStorageKey,
+      this.storage,
+      this.logger
+    );
+    this.storeMissingTimestamps();
+
+    if (wasPaused) {
+      this.handlePauseChange();
+    } else {
+      this.rescheduleInactivityTimers(this.getLastActivityTime());
+    }
+
+    // Without metadata, as the time changed without any activity
+    this.notifyListeners(this.getLastActivityTime(), undefined);
+  }
+
+  /**
+   * Reschedules the inactivity timers and notifies pause listeners
+   */
+  private handlePauseChange(): void {
+    const isPaused = this.isPaused();
+    this.logger.info(
+      isPaused ? "Idle tracking paused" : "Idle tracking resumed"
+    );
+
+    this.rescheduleInactivityTimers(this.getLastActivityTime());
+
+    for (const listener of this.pauseListeners) {
+      try {
+        listener(isPaused);
+      } catch (err) {
+        this.logger.error("Error in pause listener", err);
+      }
+    }
+  }
+
+  /**
+   * Applies the visibility options when the tab is hidden or shown
+   */
+  private handleVisibilityChange(
+    state: VisibilityState,
+    previous: VisibilityState
+  ): void {
+    if (
+      state.visibilityState === "visible" &&
+      previous.visibilityState === "hidden" &&
+      this.options.visibility?.markActiveOnVisible
+    ) {
+      this.markActive(undefined, { source: "visibility" });
+      return;
+    }
+
+    if (
+      state.visibilityState !== previous.visibilityState &&
+      this.options.visibility?.inactiveWhenHidden
+    ) {
+      this.rescheduleInactivityTimers(this.getLastActivityTime());
+    }
+  }
+
+  /**
+   * Whether the user counts as inactive because the tab is hidden
+   */
+  private isInactiveBecauseHidden(): boolean {
+    return (
+      !!this.options.visibility?.inactiveWhenHidden &&
+      this.visibilityTracker.getState().visibilityState === "hidden"
+    );
+  }
+
+  /**
+   * Gets the persisted metadata of the last activity
+   */
+  private getStoredActivityMetadata(): StoredActivityMetadata | undefined {
+    return StorageManager.getVersioned(
+      this.metadataStorageKey,
+      ACTIVITY_METADATA_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
+  /**
+   * Persists the metadata of the last activity
+   */
+  private setLastActivityMetadata(metadata: StoredActivityMetadata): void {
+    StorageManager.setVersioned(
+      this.metadataStorageKey,
+      metadata,
+      ACTIVITY_METADATA_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
+  /**
+   * Moves the last activity to a new time. Unlike markActive, this is no
+   * new activity: listeners, the recorder and the parent scope are not
+   * notified, and the metadata is kept. Other tabs receive the time with
+   * the resume message.
+   */
+  private shiftLastActivity(time: number): void {
+    const stored = this.getStoredActivityMetadata();
+
+    // Written before the timestamp, so other tabs can tell the shift from
+    // an activity on the storage event
+    this.setLastActivityMetadata({
+      source: "programmatic",
+      tabId: this.tabManager.tabId,
+      ...stored,
+      timestamp: time,
+      shifted: true,
+    });
+    StorageManager.setVersioned(
+      this._storageKey,
+      time,
+      TIMESTAMP_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
   /**
    * Notifies all registered listeners of a lastActive update
    * @param lastActive The latest last active timestamp in milliseconds
+   * @param metadata Source, tab and label of the activity
    */
-  private notifyListeners(lastActive: number): void {
+  private notifyListeners(
+    lastActive: number,
+    metadata: ActivityMetadata | undefined
+  ): void {
     for (const listener of this.listeners) {
       try {
-        listener(lastActive);
+        listener(lastActive, metadata);
       } catch (err) {
-        Logger.error("Error in activity listener", err);
+        this.logger.error("Error in activity listener", err);
       }
     }
   }
@@ -224,13 +1445,26 @@ export class ActivityManager {
    * @param lastActive The latest last active timestamp in milliseconds
    */
   private rescheduleInactivityTimers(lastActive: number): void {
+    const isStopped = this.isPaused() || this.isSessionEnded();
+    this.scheduleSessionExpiry();
+    // The stored time is reported, it may also move back (e.g. on updateLastActive)
+    this.idleClock?.markActive(this.getLastActivityTime());
+
     for (const [timeoutInMilliseconds, entry] of this.inactivityWatchers) {
       if (entry.timerId) {
         clearTimeout(entry.timerId);
         entry.timerId = undefined;
       }
+      entry.awaitsIdleClock = false;
+
+      // Timers are rescheduled on resume or when a new session starts
+      if (isStopped) {
+        continue;
+      }
 
-      const inactiveFor = Date.now() - lastActive;
+      const inactiveFor = this.isInactiveBecauseHidden()
+        ? Infinity
+        : this.now() - lastActive;
       const remaining = timeoutInMilliseconds - inactiveFor;
 
       if (remaining <= 0) {
@@ -239,21 +1473,128 @@ export class ActivityManager {
           try {
             setTimeout(cb, 0);
           } catch (err) {
-            Logger.error("Error in inactivity callback", err);
+            this.logger.error("Error in inactivity callback", err);
           }
         }
+      } else if (this.idleClock) {
+        // The idle clock worker reports when the timeout is reached
+        entry.awaitsIdleClock = true;
       } else {
         // Schedule timer to trigger after remaining time
-        entry.timerId = window.setTimeout(() => {
-          for (const cb of entry.callbacks) {
-            try {
-              cb();
-            } catch (err) {
-              Logger.error("Error in inactivity callback", err);
-            }
-          }
-          entry.timerId = undefined;
-        }, remaining);
+        entry.timerId = setTimeout(
+          () => this.runInactivityCallbacks(entry),
+          remaining
+        );
+      }
+    }
+  }
+
+  /**
+   * Schedules the end of the session at its absolute lifetime
+   */
+  private scheduleSessionExpiry(): void {
+    clearTimeout(this.sessionExpiryTimerId);
+    this.sessionExpiryTimerId = undefined;
+
+    const remaining = this.getRemainingSessionTime();
+
+    if (remaining === undefined || this.isSessionEnded()) {
+      return;
+    }
+
+    this.sessionExpiryTimerId = setTimeout(
+      () => {
+        this.sessionExpiryTimerId = undefined;
+
+        // Another tab may have started a new session in the meantime
+        if (this.getRemainingSessionTime() === 0) {
+          this.endSession(SESSION_EXPIRED_REASON);
+        } else {
+          this.scheduleSessionExpiry();
+        }
+      },
+      Math.min(remaining, MAX_TIMER_DELAY_IN_MILLISECONDS)
+    );
+  }
+
+  /**
+   * Runs the callbacks of a timeout reported by the idle clock worker
+   */
+  private handleIdleClockEvent(event: IdleClockEvent): void {
+    const entry = this.inactivityWatchers.get(event.timeoutInMilliseconds);
+
+    // Reports measured from an older activity are ignored, the clock
+    // reports again once it received the latest activity
+    if (
+      !entry?.awaitsIdleClock ||
+      event.lastActive < this.getLastActivityTime()
+    ) {
+      return;
+    }
+
+    this.runInactivityCallbacks(entry);
+  }
+
+  /**
+   * Falls back to the timers of the tab once the idle clock worker failed
+   */
+  private handleIdleClockError(): void {
+    this.idleClock?.close();
+    this.idleClock = undefined;
+    this.rescheduleInactivityTimers(this.getLastActivityTime());
+  }
+
+  /**
+   * Recomputes the pending inactivity timers from the elapsed idle time.
+   * Timers that are overdue (e.g. throttled in a background tab or
+   * held back during OS sleep) fire right away, callbacks that already
+   * fired are not repeated.
+   */
+  private recheckInactivityTimers(): void {
+    this.scheduleSessionExpiry();
+
+    if (this.isPaused() || this.isSessionEnded()) {
+      return;
+    }
+
+    const inactiveFor = this.isInactiveBecauseHidden()
+      ? Infinity
+      : this.now() - this.getLastActivityTime();
+
+    for (const [timeoutInMilliseconds, entry] of this.inactivityWatchers) {
+      if (entry.timerId === undefined && !entry.awaitsIdleClock) {
+        continue;
+      }
+
+      clearTimeout(entry.timerId);
+      const remaining = timeoutInMilliseconds - inactiveFor;
+
+      if (remaining <= 0) {
+        this.runInactivityCallbacks(entry);
+      } else if (entry.awaitsIdleClock) {
+        // The idle clock worker still reports the timeout
+        continue;
+      } else {
+        entry.timerId = setTimeout(
+          () => this.runInactivityCallbacks(entry),
+          remaining
+        );
+      }
+    }
+  }
+
+  /**
+   * Invokes the callbacks of an inactivity watcher whose timeout was reached
+   */
+  private runInactivityCallbacks(entry: InactivityWatcher): void {
+    entry.timerId = undefined;
+    entry.awaitsIdleClock = false;
+
+    for (const cb of entry.callbacks) {
+      try {
+        cb();
+      } catch (err) {
+        this.logger.error("Error in inactivity callback", err);
       }
     }
   }
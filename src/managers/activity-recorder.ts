@@ -0,0 +1,314 @@
+import { Logger } from "../debug/logger";
+import { StorageManager, type StorageApi } from "../storage/storage-manager";
+import type { StorageSchema } from "../storage/storage-schema";
+import type { ActivityManager } from "./activity-manager";
+
+const MINUTE = 60 * 1000;
+const DEFAULT_IDLE_AFTER_IN_MILLISECONDS = 5 * MINUTE;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_SAMPLE_INTERVAL_IN_MILLISECONDS = MINUTE;
+
+export interface ActivityRecorderOptions {
+  /** Inactivity in milliseconds after which an idle period starts */
+  idleAfterInMilliseconds?: number | undefined;
+  /** Maximum number of entries kept, older entries are dropped first */
+  maxEntries?: number | undefined;
+  /** Minimum time between two recorded activities of the same tab */
+  sampleIntervalInMilliseconds?: number | undefined;
+}
+
+interface ActivityRecorderStorageOptions {
+  /** Storage the history is persisted in */
+  storage: StorageApi | undefined;
+  /** Storage key holding the history */
+  storageKey: string;
+  /** ID of the current tab */
+  tabId: string;
+}
+
+/**
+ * A recorded event. "active" and "idle" mark the start of an active or
+ * idle period, "activity" entries are samples within an active period.
+ */
+export interface ActivityHistoryEntry {
+  type: "activity" | "active" | "idle";
+  /** Time of the event in milliseconds */
+  timestamp: number;
+  /** ID of the tab that recorded the event */
+  tabId: string;
+}
+
+export interface TabActivityStats {
+  /** Number of recorded activities */
+  activityCount: number;
+  /** Time of the first recorded activity in milliseconds */
+  firstActivityAt: number;
+  /** Time of the last recorded activity in milliseconds */
+  lastActivityAt: number;
+}
+
+export interface ActivityStats {
+  /** Total time spent in active periods in milliseconds */
+  totalActiveTimeInMilliseconds: number;
+  /** Number of idle periods */
+  idlePeriodCount: number;
+  /** Longest idle period in milliseconds (including an ongoing one) */
+  longestIdlePeriodInMilliseconds: number;
+  /** Activity breakdown by tab ID */
+  tabs: Record<string, TabActivityStats>;
+}
+
+const isHistoryEntry = (value: unknown): value is ActivityHistoryEntry =>
+  typeof value === "object" &&
+  value !== null &&
+  "type" in value &&
+  (value.type === "activity" ||
+    value.type === "active" ||
+    value.type === "idle") &&
+  "timestamp" in value &&
+  typeof value.timestamp === "number" &&
+  "tabId" in value &&
+  typeof value.tabId === "string";
+
+const ACTIVITY_HISTORY_SCHEMA: StorageSchema<unknown[]> = {
+  version: 1,
+  // Corrupt entries are skipped when reading the history
+  validate: (value): value is unknown[] => Array.isArray(value),
+};
+
+/**
+ * Records activity and idle transitions into a bounded history persisted
+ * in storage and computes usage statistics from it.
+ * When the storage is shared by all tabs, so is the history.
+ */
+export class ActivityRecorder {
+  private readonly activityManager: ActivityManager;
+  private readonly storage: StorageApi | undefined;
+  private readonly storageKey: string;
+  private readonly tabId: string;
+  private readonly idleAfterInMilliseconds: number;
+  private readonly maxEntries: number;
+  private readonly sampleIntervalInMilliseconds: number;
+  private readonly logger: Logger;
+
+  private unsubscribeFromInactivity: (() => void) | undefined;
+
+  constructor(
+    activityManager: ActivityManager,
+    options: ActivityRecorderOptions & ActivityRecorderStorageOptions,
+    logger: Logger = Logger
+  ) {
+    this.activityManager = activityManager;
+    this.storage = options.storage;
+    this.storageKey = options.storageKey;
+    this.tabId = options.tabId;
+    this.idleAfterInMilliseconds =
+      options.idleAfterInMilliseconds ?? DEFAULT_IDLE_AFTER_IN_MILLISECONDS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.sampleIntervalInMilliseconds =
+      options.sampleIntervalInMilliseconds ??
+      DEFAULT_SAMPLE_INTERVAL_IN_MILLISECONDS;
+    this.logger = logger;
+  }
+
+  /**
+   * Starts recording idle transitions
+   */
+  start(): void {
+    if (this.unsubscribeFromInactivity) {
+      return;
+    }
+
+    this.unsubscribeFromInactivity = this.activityManager.subscribeToInactivity(
+      this.idleAfterInMilliseconds,
+      () => this.recordIdle()
+    );
+  }
+
+  /**
+   * Stops recording idle transitions
+   */
+  stop(): void {
+    this.unsubscribeFromInactivity?.();
+    this.unsubscribeFromInactivity = undefined;
+  }
+
+  /**
+   * Records activity of the current tab. Starts a new active period
+   * if the user was idle, otherwise samples the activity at most once
+   * per sample interval.
+   * @param timestamp Time of the activity in milliseconds
+   */
+  recordActivity(timestamp: number): void {
+    const entries = this.getEntries();
+    const lastTransition = entries.findLast(
+      (entry) => entry.type !== "activity"
+    );
+
+    if (lastTransition?.type !== "active") {
+      this.append(entries, { type: "active", timestamp, tabId: this.tabId });
+      return;
+    }
+
+    const lastSample = entries.findLast((entry) => entry.tabId === this.tabId);
+
+    if (
+      !lastSample ||
+      timestamp - lastSample.timestamp >= this.sampleIntervalInMilliseconds
+    ) {
+      this.append(entries, {
+        type: "activity",
+        timestamp,
+        tabId: this.tabId,
+      });
+    }
+  }
+
+  /**
+   * Gets the recorded history, oldest entry first
+   */
+  getEntries(): ActivityHistoryEntry[] {
+    const entries = StorageManager.getVersioned(
+      this.storageKey,
+      ACTIVITY_HISTORY_SCHEMA,
+      this.storage,
+      this.logger
+    );
+
+    return entries?.filter(isHistoryEntry) ?? [];
+  }
+
+  /**
+   * Computes usage statistics from the recorded history
+   */
+  getStats(): ActivityStats {
+    const entries = this.getEntries().sort((a, b) => a.timestamp - b.timestamp);
+    const stats: ActivityStats = {
+      totalActiveTimeInMilliseconds: 0,
+      idlePeriodCount: 0,
+      longestIdlePeriodInMilliseconds: 0,
+      tabs: {},
+    };
+    let activeSince: number | undefined;
+    let idleSince: number | undefined;
+
+    for (const entry of entries) {
+      if (entry.type === "idle") {
+        if (activeSince !== undefined) {
+          stats.totalActiveTimeInMilliseconds += entry.timestamp - activeSince;
+          activeSince = undefined;
+        }
+
+        idleSince = entry.timestamp;
+        stats.idlePeriodCount++;
+        continue;
+      }
+
+      if (idleSince !== undefined) {
+        stats.longestIdlePeriodInMilliseconds = Math.max(
+          stats.longestIdlePeriodInMilliseconds,
+          entry.timestamp - idleSince
+        );
+        idleSince = undefined;
+      }
+
+      activeSince ??= entry.timestamp;
+
+      const tab = stats.tabs[entry.tabId];
+      if (tab) {
+        tab.activityCount++;
+        tab.lastActivityAt = Math.max(tab.lastActivityAt, entry.timestamp);
+      } else {
+        stats.tabs[entry.tabId] = {
+          activityCount: 1,
+          firstActivityAt: entry.timestamp,
+          lastActivityAt: entry.timestamp,
+        };
+      }
+    }
+
+    // Close the ongoing period
+    if (activeSince !== undefined) {
+      stats.totalActiveTimeInMilliseconds += Math.max(
+        0,
+        this.activityManager.getLastActivityTime() - activeSince
+      );
+    }
+
+    if (idleSince !== undefined) {
+      stats.longestIdlePeriodInMilliseconds = Math.max(
+        stats.longestIdlePeriodInMilliseconds,
+        Date.now() - idleSince
+      );
+    }
+
+    return stats;
+  }
+
+  /**
+   * Exports the recorded history together with its statistics as JSON
+   */
+  exportJSON(): string {
+    return JSON.stringify(
+      {
+        exportedAt: Date.now(),
+        entries: this.getEntries(),
+        stats: this.getStats(),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Removes the recorded history
+   */
+  clear(): void {
+    StorageManager.remove(this.storageKey, this.storage, this.logger);
+  }
+
+  /**
+   * Records the start of an idle period unless another tab already did
+   */
+  private recordIdle(): void {
+    const entries = this.getEntries();
+    const lastTransition = entries.findLast(
+      (entry) => entry.type !== "activity"
+    );
+
+    if (lastTransition?.type !== "active") {
+      return;
+    }
+
+    // The idle period started with the last activity
+    this.append(entries, {
+      type: "idle",
+      timestamp: this.activityManager.getLastActivityTime(),
+      tabId: this.tabId,
+    });
+  }
+
+  /**
+   * Appends an entry, dropping the oldest entries beyond the maximum
+   */
+  private append(
+    entries: ActivityHistoryEntry[],
+    entry: ActivityHistoryEntry
+  ): void {
+    entries.push(entry);
+
+    if (
+      !StorageManager.setVersioned(
+        this.storageKey,
+        entries.slice(-this.maxEntries),
+        ACTIVITY_HISTORY_SCHEMA,
+        this.storage,
+        this.logger
+      )
+    ) {
+      this.logger.warning("Failed to record activity history entry", {
+        type: entry.type,
+      });
+    }
+  }
+}
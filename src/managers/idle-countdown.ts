@@ -0,0 +1,131 @@
+import type { ActivityManager } from "./activity-manager";
+
+export interface IdleCountdownOptions {
+  /** Inactivity in milliseconds after which the warning stage starts */
+  warnAfter: number;
+  /** Inactivity in milliseconds after which the user has timed out */
+  timeoutAfter: number;
+}
+
+export type IdleStage = "active" | "warning" | "timedOut";
+
+/**
+ * Two-stage idle model on top of an ActivityManager.
+ * The stage moves from "active" to "warning" after warnAfter and to
+ * "timedOut" after timeoutAfter, and back to "active" on any activity
+ * (including activity synced from other tabs).
+ */
+export class IdleCountdown {
+  private readonly activityManager: ActivityManager;
+  private readonly options: IdleCountdownOptions;
+
+  private stage: IdleStage = "active";
+  private listeners = new Set<(stage: IdleStage) => void>();
+  private cleanups: (() => void)[] = [];
+
+  constructor(activityManager: ActivityManager, options: IdleCountdownOptions) {
+    if (options.warnAfter >= options.timeoutAfter) {
+      throw new Error("warnAfter must be less than timeoutAfter");
+    }
+
+    this.activityManager = activityManager;
+    this.options = options;
+  }
+
+  /**
+   * Gets the current idle stage
+   */
+  getStage(): IdleStage {
+    // Without subscribers no timers are running, so compute the stage on demand
+    if (this.listeners.size === 0) {
+      return this.computeStage();
+    }
+
+    return this.stage;
+  }
+
+  /**
+   * Gets the time left until the timeout is reached in milliseconds
+   */
+  getRemainingTime(): number {
+    const inactiveFor = this.activityManager.getInactiveDuration();
+    return Math.max(0, this.options.timeoutAfter - inactiveFor);
+  }
+
+  /**
+   * Subscribes to idle stage changes
+   * @param callback Callback to invoke when the stage changes
+   * @returns Unsubscribe function
+   */
+  subscribe(callback: (stage: IdleStage) => void): () => void {
+    this.listeners.add(callback);
+
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+
+    return () => {
+      this.listeners.delete(callback);
+
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Removes all subscribers and stops the underlying timers
+   */
+  destroy(): void {
+    this.listeners.clear();
+    this.stop();
+  }
+
+  private start(): void {
+    this.stage = this.computeStage();
+    this.cleanups = [
+      this.activityManager.subscribe(() => this.updateStage()),
+      this.activityManager.subscribeToInactivity(this.options.warnAfter, () =>
+        this.updateStage()
+      ),
+      this.activityManager.subscribeToInactivity(
+        this.options.timeoutAfter,
+        () => this.updateStage()
+      ),
+    ];
+  }
+
+  private stop(): void {
+    for (const cleanup of this.cleanups) {
+      cleanup();
+    }
+
+    this.cleanups = [];
+  }
+
+  private computeStage(): IdleStage {
+    if (this.activityManager.isInactiveFor(this.options.timeoutAfter)) {
+      return "timedOut";
+    }
+
+    if (this.activityManager.isInactiveFor(this.options.warnAfter)) {
+      return "warning";
+    }
+
+    return "active";
+  }
+
+  private updateStage(): void {
+    const stage = this.computeStage();
+
+    if (stage === this.stage) {
+      return;
+    }
+
+    this.stage = stage;
+
+    for (const listener of this.listeners) {
+      listener(stage);
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { Logger } from "../debug/logger";
+import { StorageManager, type StorageApi } from "../storage/storage-manager";
+import {
+  isFiniteNumber,
+  isRecord,
+  type StorageSchema,
+} from "../storage/storage-schema";
+import type { ActivityManager } from "./activity-manager";
+
+const MINUTE = 60 * 1000;
+const DEFAULT_MIN_INTERVAL_IN_MILLISECONDS = 5 * MINUTE;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_IN_MILLISECONDS = 1000;
+
+export interface KeepAliveOptions {
+  /** Extends the server session, a rejected promise counts as failed */
+  onKeepAlive: (lastActive: number) => Promise<unknown>;
+  /** Minimum time between two keepalives of all tabs in milliseconds */
+  minIntervalInMilliseconds?: number | undefined;
+  /** Number of retries after a failed keepalive */
+  maxRetries?: number | undefined;
+  /** Delay before the first retry in milliseconds, doubled for every further retry */
+  retryDelayInMilliseconds?: number | undefined;
+}
+
+interface KeepAliveStorageOptions {
+  /** Storage the keepalive state is shared through */
+  storage: StorageApi | undefined;
+  /** Storage key holding the keepalive state */
+  storageKey: string;
+  /** ID of the current tab */
+  tabId: string;
+}
+
+export interface KeepAliveState {
+  /** Whether the last keepalive is still running, succeeded or failed */
+  status: "pending" | "succeeded" | "failed";
+  /** Time of the last attempt in milliseconds */
+  attemptedAt: number;
+  /** Last activity timestamp the keepalive was sent for */
+  lastActive: number;
+  /** Time of the last successful keepalive in milliseconds */
+  succeededAt?: number | undefined;
+  /** ID of the tab that sent the keepalive */
+  tabId: string;
+}
+
+const KEEP_ALIVE_STATE_SCHEMA: StorageSchema<KeepAliveState> = {
+  version: 1,
+  validate: (value): value is KeepAliveState =>
+    isRecord(value) &&
+    isFiniteNumber(value["attemptedAt"]) &&
+    isFiniteNumber(value["lastActive"]),
+};
+
+/**
+ * Extends the server session on activity of the current tab, at most once
+ * per interval across all tabs sharing the storage. Activity within the
+ * interval is sent once the interval has passed, failed keepalives are
+ * retried with exponential backoff.
+ */
+export class SessionKeepAlive {
+  private readonly activityManager: ActivityManager;
+  private readonly onKeepAlive: (lastActive: number) => Promise<unknown>;
+  private readonly minIntervalInMilliseconds: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayInMilliseconds: number;
+  private readonly storage: StorageApi | undefined;
+  private readonly storageKey: string;
+  private readonly tabId: string;
+  private readonly logger: Logger;
+
+  private unsubscribeFromActivity: (() => void) | undefined;
+  private timerId: ReturnType<typeof setTimeout> | undefined;
+  private isSending = false;
+  private hasUnsentActivity = false;
+
+  constructor(
+    activityManager: ActivityManager,
+    options: KeepAliveOptions & KeepAliveStorageOptions,
+    logger: Logger = Logger
+  ) {
+    this.activityManager = activityManager;
+    this.onKeepAlive = options.onKeepAlive;
+    this.minIntervalInMilliseconds =
+      options.minIntervalInMilliseconds ?? DEFAULT_MIN_INTERVAL_IN_MILLISECONDS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayInMilliseconds =
+      options.retryDelayInMilliseconds ?? DEFAULT_RETRY_DELAY_IN_MILLISECONDS;
+    this.storage = options.storage;
+    this.storageKey = options.storageKey;
+    this.tabId = options.tabId;
+    this.logger = logger;
+  }
+
+  /**
+   * Starts sending keepalives on activity of the current tab
+   */
+  start(): void {
+    if (this.unsubscribeFromActivity) {
+      return;
+    }
+
+    this.unsubscribeFromActivity = this.activityManager.subscribe(
+      (lastActive, metadata) => {
+        // Skips the call with the current value made while subscribing
+        if (!this.unsubscribeFromActivity) {
+          return;
+        }
+
+        // Activity of other tabs is sent by the tab it happened in
+        if (metadata && metadata.source !== "remote") {
+          this.handleActivity(lastActive);
+        }
+      }
+    );
+  }
+
+  /**
+   * Stops sending keepalives, including pending retries
+   */
+  stop(): void {
+    this.unsubscribeFromActivity?.();
+    this.unsubscribeFromActivity = undefined;
+    clearTimeout(this.timerId);
+    this.timerId = undefined;
+    this.isSending = false;
+    this.hasUnsentActivity = false;
+  }
+
+  /**
+   * Gets the state of the last keepalive sent by any tab
+   */
+  getState(): KeepAliveState | undefined {
+    return StorageManager.getVersioned(
+      this.storageKey,
+      KEEP_ALIVE_STATE_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
+  /**
+   * Checks if the last keepalive succeeded (false while it is still pending)
+   */
+  hasLastKeepAliveSucceeded(): boolean {
+    return this.getState()?.status === "succeeded";
+  }
+
+  /**
+   * Sends a keepalive unless one was sent within the interval,
+   * in which case it is sent once the interval has passed
+   */
+  private handleActivity(lastActive: number): void {
+    if (this.isSending) {
+      this.hasUnsentActivity = true;
+      return;
+    }
+
+    if (this.timerId !== undefined) {
+      return;
+    }
+
+    const state = this.getState();
+    const wait = state
+      ? state.attemptedAt + this.minIntervalInMilliseconds - Date.now()
+      : 0;
+
+    if (wait > 0) {
+      this.timerId = setTimeout(() => {
+        this.timerId = undefined;
+        this.sendIfNewActivity();
+      }, wait);
+      return;
+    }
+
+    void this.send(lastActive, 0);
+  }
+
+  /**
+   * Sends a keepalive if there was activity since the last one
+   */
+  private sendIfNewActivity(): void {
+    const lastActive = this.activityManager.getLastActivityTime();
+
+    if (lastActive > (this.getState()?.lastActive ?? 0)) {
+      this.handleActivity(lastActive);
+    }
+  }
+
+  private async send(lastActive: number, attempt: number): Promise<void> {
+    const previous = this.getState();
+    const attemptedAt = Date.now();
+    this.isSending = true;
+    this.hasUnsentActivity = false;
+    this.setState({
+      status: "pending",
+      attemptedAt,
+      lastActive,
+      succeededAt: previous?.succeededAt,
+      tabId: this.tabId,
+    });
+
+    try {
+      await this.onKeepAlive(lastActive);
+      this.setState({
+        status: "succeeded",
+        attemptedAt,
+        lastActive,
+        succeededAt: Date.now(),
+        tabId: this.tabId,
+      });
+      this.logger.info("Keepalive sent", { lastActive });
+      this.finishSending();
+    } catch (err) {
+      if (attempt < this.maxRetries && this.unsubscribeFromActivity) {
+        const delay = this.retryDelayInMilliseconds * 2 ** attempt;
+        this.logger.warning("Keepalive failed, retrying", {
+          attempt: attempt + 1,
+          delayInMilliseconds: delay,
+        });
+        this.timerId = setTimeout(() => {
+          this.timerId = undefined;
+          void this.send(
+            this.activityManager.getLastActivityTime(),
+            attempt + 1
+          );
+        }, delay);
+        return;
+      }
+
+      this.setState({
+        status: "failed",
+        attemptedAt,
+        lastActive,
+        succeededAt: previous?.succeededAt,
+        tabId: this.tabId,
+      });
+      this.logger.error("Keepalive failed", err);
+      this.finishSending();
+    }
+  }
+
+  /**
+   * Schedules the activity that happened while sending
+   */
+  private finishSending(): void {
+    this.isSending = false;
+
+    if (this.hasUnsentActivity && this.unsubscribeFromActivity) {
+      this.handleActivity(this.activityManager.getLastActivityTime());
+    }
+  }
+
+  private setState(state: KeepAliveState): void {
+    if (
+      !StorageManager.setVersioned(
+        this.storageKey,
+        state,
+        KEEP_ALIVE_STATE_SCHEMA,
+        this.storage,
+        this.logger
+      )
+    ) {
+      this.logger.warning("Failed to store keepalive state");
+    }
+  }
+}
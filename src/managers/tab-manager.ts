@@ -1,29 +1,150 @@
 import { Logger } from "../debug/logger";
-import { StorageManager } from "../storage/storage-manager";
+import { StorageManager, type StorageApi } from "../storage/storage-manager";
+import {
+  isFiniteNumber,
+  isRecord,
+  type StorageSchema,
+} from "../storage/storage-schema";
+import { getLocalStorage, isBrowser } from "../utils/environment";
 
 const MINUTE = 60 * 1000;
 const INACTIFY_TAB_ID = "inactify_tab_id";
 const INACTIFY_ACTIVE_TABS = "inactify_active_tabs";
-const TAB_INACTIVE_TIMEOUT = 30 * MINUTE;
+const DEFAULT_STALE_TAB_TIMEOUT_IN_MILLISECONDS = 30 * MINUTE;
+const DEFAULT_HEARTBEAT_INTERVAL_IN_MILLISECONDS =
+  DEFAULT_STALE_TAB_TIMEOUT_IN_MILLISECONDS / 3;
 
-type TabEntry = Record<string, number>;
+export interface TabTrackingOptions {
+  /** Time between two heartbeats of the current tab in milliseconds */
+  heartbeatIntervalInMilliseconds?: number | undefined;
+  /** Time without a heartbeat after which a tab is no longer counted as open */
+  staleTabTimeoutInMilliseconds?: number | undefined;
+  /** ID of the current tab (defaults to a random ID kept in session storage) */
+  tabId?: string | undefined;
+}
+
+export interface TabManagerOptions extends TabTrackingOptions {
+  /** Storage used to track the active tabs (defaults to localStorage) */
+  storage?: StorageApi | undefined;
+  /** Custom prefix for the active tabs storage key */
+  storagePrefix?: string | undefined;
+  /** Logger used for diagnostics (defaults to a silent logger) */
+  logger?: Logger | undefined;
+}
+
+interface TabHeartbeat {
+  /** Time of the last heartbeat in milliseconds */
+  timestamp: number;
+  /** Whether the tab was visible at the last heartbeat */
+  visible: boolean;
+}
+
+/**
+ * Number of tab managers sending heartbeats by active tabs key and tab ID.
+ * Nested providers track the same tab, so it is only removed from
+ * the active tabs when the last of them stops.
+ */
+const heartbeatCounts = new Map<string, number>();
+
+/** Heartbeats by tab ID (plain timestamps are heartbeats from older versions) */
+type TabEntry = Record<string, TabHeartbeat | number>;
+
+const ACTIVE_TABS_SCHEMA: StorageSchema<TabEntry> = {
+  version: 1,
+  // Corrupt heartbeats are removed together with the stale ones
+  validate: (value): value is TabEntry => isRecord(value),
+};
+
+const isHeartbeat = (value: unknown): value is TabHeartbeat | number =>
+  isFiniteNumber(value) ||
+  (isRecord(value) &&
+    isFiniteNumber(value["timestamp"]) &&
+    typeof value["visible"] === "boolean");
 
+const getHeartbeatTimestamp = (heartbeat: TabHeartbeat | number): number =>
+  typeof heartbeat === "number" ? heartbeat : heartbeat.timestamp;
+
+const isHeartbeatVisible = (heartbeat: TabHeartbeat | number): boolean =>
+  typeof heartbeat === "number" ? true : heartbeat.visible;
+
+/**
+ * Tracks the open tabs sharing the same storage through periodic heartbeats
+ * and elects a leader among them
+ */
 export class TabManager {
-  private static _tabId: string | null = null;
+  private readonly storage: StorageApi | undefined;
+  private readonly logger: Logger;
+  private readonly activeTabsKey: string;
+  private readonly heartbeatIntervalInMilliseconds: number;
+  private readonly staleTabTimeoutInMilliseconds: number;
+
+  private _tabId: string | null = null;
+  private _isLeader = false;
+  private leadershipListeners = new Set<(isLeader: boolean) => void>();
+  private unsubscribeLeadership: (() => void) | undefined;
+  private tabListeners = new Set<(tabIds: string[]) => void>();
+  private lastTabIds: string[] = [];
+  private storageListener: ((event: StorageEvent) => void) | undefined;
+  private heartbeatIntervalId: ReturnType<typeof setInterval> | undefined;
+  private isRegistered = false;
+  // Send a heartbeat right away so other tabs see visibility changes
+  private visibilityListener = () => {
+    if (this.heartbeatIntervalId !== undefined) {
+      this.trackCurrentTab();
+    }
+  };
+  // pagehide also fires on mobile Safari and when the page enters the bfcache,
+  // unlike beforeunload
+  private pageHideListener = () => this.stopHeartbeat();
+  private pageShowListener = (event: PageTransitionEvent) => {
+    if (event.persisted) {
+      this.startHeartbeat();
+    }
+  };
+
+  constructor(options: TabManagerOptions = {}) {
+    this.staleTabTimeoutInMilliseconds =
+      options.staleTabTimeoutInMilliseconds ??
+      DEFAULT_STALE_TAB_TIMEOUT_IN_MILLISECONDS;
+    this.heartbeatIntervalInMilliseconds =
+      options.heartbeatIntervalInMilliseconds ??
+      Math.min(
+        DEFAULT_HEARTBEAT_INTERVAL_IN_MILLISECONDS,
+        this.staleTabTimeoutInMilliseconds / 3
+      );
+
+    if (
+      this.heartbeatIntervalInMilliseconds >= this.staleTabTimeoutInMilliseconds
+    ) {
+      throw new Error(
+        "heartbeatIntervalInMilliseconds must be less than staleTabTimeoutInMilliseconds"
+      );
+    }
+
+    this.storage = options.storage ?? getLocalStorage();
+    this.logger = options.logger ?? Logger;
+    this._tabId = options.tabId ?? null;
+    this.activeTabsKey = options.storagePrefix
+      ? `${options.storagePrefix}_${INACTIFY_ACTIVE_TABS}`
+      : INACTIFY_ACTIVE_TABS;
+  }
 
   /**
-   * Get or create a unique tab ID for this browser tab
+   * Get or create a unique tab ID for this browser tab, unless set
+   * through the options. The ID is kept in session storage, so it is
+   * shared by all tab managers in the same tab.
    */
-  static get tabId(): string {
+  get tabId(): string {
     if (!this._tabId) {
-      this._tabId = StorageManager.getSession(INACTIFY_TAB_ID) ?? "";
+      this._tabId =
+        StorageManager.getSession(INACTIFY_TAB_ID, this.logger) ?? "";
       if (!this._tabId) {
-        if (crypto) {
+        if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
           this._tabId = crypto.randomUUID();
         } else {
           this._tabId = Math.random().toString(36);
         }
-        StorageManager.setSession(INACTIFY_TAB_ID, this._tabId);
+        StorageManager.setSession(INACTIFY_TAB_ID, this._tabId, this.logger);
       }
     }
 
@@ -33,17 +154,17 @@ export class TabManager {
   /**
    * Get the count of currently active tabs
    */
-  static getActiveTabsCount(): number {
+  getActiveTabsCount(): number {
     try {
-      const tabs = StorageManager.get<TabEntry>(INACTIFY_ACTIVE_TABS) ?? {};
+      const tabs = this.readTabs();
 
       if (this.removeInactiveTabEntries(tabs)) {
-        StorageManager.set(INACTIFY_ACTIVE_TABS, tabs);
+        this.writeTabs(tabs);
       }
 
       return Object.keys(tabs).length;
     } catch (error) {
-      Logger.error("Failed to get current tab count", error);
+      this.logger.error("Failed to get current tab count", error);
       return 1;
     }
   }
@@ -51,57 +172,180 @@ export class TabManager {
   /**
    * Register the current tab and start periodic tracking
    */
-  static registerCurrentTab(): void {
+  registerCurrentTab(): void {
+    if (this.isRegistered || !isBrowser()) {
+      return;
+    }
+
     try {
+      this.startHeartbeat();
+
+      document.addEventListener("visibilitychange", this.visibilityListener);
+      window.addEventListener("pagehide", this.pageHideListener);
+      window.addEventListener("pageshow", this.pageShowListener);
+      this.isRegistered = true;
+    } catch (error) {
+      this.logger.error("Failed to register current tab", error);
+    }
+  }
+
+  /**
+   * Removes the heartbeat of the current tab and the stored tab ID.
+   * The heartbeats of other tabs are kept, as those tabs are still open.
+   * While the current tab sends heartbeats it is tracked again right away
+   * under its ID, so other tabs keep counting it.
+   */
+  clearStorage(): void {
+    this.markCurrentTabInactive();
+
+    if (Object.keys(this.readTabs()).length === 0) {
+      StorageManager.remove(this.activeTabsKey, this.storage, this.logger);
+    }
+
+    StorageManager.removeSession(INACTIFY_TAB_ID, this.logger);
+
+    if (this.heartbeatIntervalId !== undefined) {
+      StorageManager.setSession(INACTIFY_TAB_ID, this.tabId, this.logger);
+      this.trackCurrentTab();
+    }
+
+    this.notifyTabListeners();
+  }
+
+  /**
+   * Stops tracking the current tab, removes all listeners and
+   * removes the tab from the active tabs
+   */
+  destroy(): void {
+    if (this.isRegistered) {
+      document.removeEventListener("visibilitychange", this.visibilityListener);
+      window.removeEventListener("pagehide", this.pageHideListener);
+      window.removeEventListener("pageshow", this.pageShowListener);
+      this.isRegistered = false;
+    }
+
+    this.stopHeartbeat();
+    this.removeStorageListener();
+    this.unsubscribeLeadership?.();
+    this.unsubscribeLeadership = undefined;
+    this.leadershipListeners.clear();
+    this.tabListeners.clear();
+  }
+
+  /**
+   * Track the current tab right away and then periodically
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeatIntervalId !== undefined) {
+      return;
+    }
+
+    const countKey = `${this.activeTabsKey}:${this.tabId}`;
+    heartbeatCounts.set(countKey, (heartbeatCounts.get(countKey) ?? 0) + 1);
+    this.trackCurrentTab();
+    this.notifyTabListeners();
+
+    this.heartbeatIntervalId = setInterval(() => {
       this.trackCurrentTab();
+      this.notifyTabListeners();
+    }, this.heartbeatIntervalInMilliseconds);
+  }
+
+  /**
+   * Stop the heartbeat and remove the current tab from the active tabs
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatIntervalId === undefined) {
+      return;
+    }
 
-      const intervalId = setInterval(() => {
-        this.trackCurrentTab();
-      }, TAB_INACTIVE_TIMEOUT / 3);
+    clearInterval(this.heartbeatIntervalId);
+    this.heartbeatIntervalId = undefined;
+
+    const countKey = `${this.activeTabsKey}:${this.tabId}`;
+    const count = (heartbeatCounts.get(countKey) ?? 1) - 1;
+    if (count > 0) {
+      heartbeatCounts.set(countKey, count);
+      return;
+    }
 
-      window.addEventListener("beforeunload", () => {
-        clearInterval(intervalId);
-        this.markCurrentTabInactive();
-      });
+    heartbeatCounts.delete(countKey);
+
+    try {
+      this.markCurrentTabInactive();
     } catch (error) {
-      Logger.error("Failed to register current tab", error);
+      this.logger.error("Failed to unregister current tab", error);
     }
   }
 
   /**
-   * Update the timestamp for the current tab
+   * Update the heartbeat for the current tab
    */
-  private static trackCurrentTab(): void {
+  private trackCurrentTab(): void {
     const timestamp = Date.now();
     const currentTabId = this.tabId;
-    const tabs = StorageManager.get<TabEntry>(INACTIFY_ACTIVE_TABS) ?? {};
+    const tabs = this.readTabs();
 
-    tabs[currentTabId] = timestamp;
+    tabs[currentTabId] = {
+      timestamp,
+      visible: document.visibilityState !== "hidden",
+    };
 
     this.removeInactiveTabEntries(tabs);
 
-    StorageManager.set(INACTIFY_ACTIVE_TABS, tabs);
+    this.writeTabs(tabs);
   }
 
   /**
    * Remove the current tab from active tabs list
    */
-  private static markCurrentTabInactive(): void {
-    const tabs = StorageManager.get<TabEntry>(INACTIFY_ACTIVE_TABS) ?? {};
+  private markCurrentTabInactive(): void {
+    const tabs = this.readTabs();
     delete tabs[this.tabId];
-    StorageManager.set(INACTIFY_ACTIVE_TABS, tabs);
+    this.writeTabs(tabs);
   }
 
   /**
-   * Remove tab entries that are older than the timeout threshold
+   * Read the heartbeats of all tabs
+   */
+  private readTabs(): TabEntry {
+    return (
+      StorageManager.getVersioned(
+        this.activeTabsKey,
+        ACTIVE_TABS_SCHEMA,
+        this.storage,
+        this.logger
+      ) ?? {}
+    );
+  }
+
+  /**
+   * Persist the heartbeats of all tabs
+   */
+  private writeTabs(tabs: TabEntry): void {
+    StorageManager.setVersioned(
+      this.activeTabsKey,
+      tabs,
+      ACTIVE_TABS_SCHEMA,
+      this.storage,
+      this.logger
+    );
+  }
+
+  /**
+   * Remove tab entries that are older than the timeout threshold or corrupt
    * @returns true if any entries were removed
    */
-  private static removeInactiveTabEntries(tabs: TabEntry): boolean {
+  private removeInactiveTabEntries(tabs: TabEntry): boolean {
     let hasChanges = false;
     const now = Date.now();
 
-    for (const [tabId, timestamp] of Object.entries(tabs)) {
-      if (now - timestamp > TAB_INACTIVE_TIMEOUT) {
+    for (const [tabId, heartbeat] of Object.entries(tabs)) {
+      if (
+        !isHeartbeat(heartbeat) ||
+        now - getHeartbeatTimestamp(heartbeat) >
+          this.staleTabTimeoutInMilliseconds
+      ) {
         delete tabs[tabId];
         hasChanges = true;
       }
@@ -113,17 +357,35 @@ export class TabManager {
   /**
    * Get all active tab IDs
    */
-  static getActiveTabIds(): string[] {
+  getActiveTabIds(): string[] {
     try {
-      const tabs = StorageManager.get<TabEntry>(INACTIFY_ACTIVE_TABS) ?? {};
+      const tabs = this.readTabs();
 
       if (this.removeInactiveTabEntries(tabs)) {
-        StorageManager.set(INACTIFY_ACTIVE_TABS, tabs);
+        this.writeTabs(tabs);
       }
 
       return Object.keys(tabs);
     } catch (error) {
-      Logger.error("Failed to get active tab IDs", error);
+      this.logger.error("Failed to get active tab IDs", error);
+      return [this.tabId];
+    }
+  }
+
+  /**
+   * Get the IDs of active tabs that were visible at their last heartbeat
+   */
+  getVisibleTabIds(): string[] {
+    try {
+      const tabs = this.readTabs();
+
+      this.removeInactiveTabEntries(tabs);
+
+      return Object.entries(tabs)
+        .filter(([, heartbeat]) => isHeartbeatVisible(heartbeat))
+        .map(([tabId]) => tabId);
+    } catch (error) {
+      this.logger.error("Failed to get visible tab IDs", error);
       return [this.tabId];
     }
   }
@@ -131,8 +393,149 @@ export class TabManager {
   /**
    * Check if a specific tab is still active
    */
-  static isTabActive(tabId: string): boolean {
-    const tabs = StorageManager.get<TabEntry>(INACTIFY_ACTIVE_TABS) ?? {};
+  isTabActive(tabId: string): boolean {
+    const tabs = this.readTabs();
     return tabId in tabs;
   }
+
+  /**
+   * Check if the current tab is the leader.
+   * The leader is the active tab with the lowest tab ID, so every tab
+   * elects the same leader from the shared active tabs list.
+   */
+  isLeader(): boolean {
+    const [leaderTabId] = this.getActiveTabIds().sort();
+    return leaderTabId === this.tabId;
+  }
+
+  /**
+   * Subscribe to leadership changes of the current tab
+   * @param callback Callback to invoke with the new leadership state
+   * @returns Unsubscribe function
+   */
+  onLeadershipChange(callback: (isLeader: boolean) => void): () => void {
+    this.leadershipListeners.add(callback);
+
+    if (this.leadershipListeners.size === 1) {
+      this._isLeader = this.isLeader();
+      this.unsubscribeLeadership = this.subscribeToTabs(() =>
+        this.updateLeadership()
+      );
+    }
+
+    return () => {
+      this.leadershipListeners.delete(callback);
+
+      if (this.leadershipListeners.size === 0) {
+        this.unsubscribeLeadership?.();
+        this.unsubscribeLeadership = undefined;
+      }
+    };
+  }
+
+  /**
+   * Subscribe to tabs joining or leaving
+   * @param callback Callback to invoke with the sorted IDs of all active tabs
+   * @returns Unsubscribe function
+   */
+  subscribeToTabs(callback: (tabIds: string[]) => void): () => void {
+    this.tabListeners.add(callback);
+
+    if (this.tabListeners.size === 1) {
+      this.lastTabIds = this.getActiveTabIds().sort();
+      this.setupStorageListener();
+    }
+
+    return () => {
+      this.tabListeners.delete(callback);
+
+      if (this.tabListeners.size === 0) {
+        this.removeStorageListener();
+      }
+    };
+  }
+
+  /**
+   * Notify tab listeners when the set of active tabs changed
+   */
+  private notifyTabListeners(): void {
+    if (this.tabListeners.size === 0) {
+      return;
+    }
+
+    const tabIds = this.getActiveTabIds().sort();
+
+    if (
+      tabIds.length === this.lastTabIds.length &&
+      tabIds.every((tabId, index) => tabId === this.lastTabIds[index])
+    ) {
+      return;
+    }
+
+    this.lastTabIds = tabIds;
+
+    for (const listener of this.tabListeners) {
+      try {
+        listener(tabIds);
+      } catch (err) {
+        this.logger.error("Error in tab listener", err);
+      }
+    }
+  }
+
+  /**
+   * Re-evaluate leadership and notify listeners when it changed
+   */
+  private updateLeadership(): void {
+    if (this.leadershipListeners.size === 0) {
+      return;
+    }
+
+    const isLeader = this.isLeader();
+
+    if (isLeader === this._isLeader) {
+      return;
+    }
+
+    this._isLeader = isLeader;
+    this.logger.info("Tab leadership changed", { tabId: this.tabId, isLeader });
+
+    for (const listener of this.leadershipListeners) {
+      try {
+        listener(isLeader);
+      } catch (err) {
+        this.logger.error("Error in leadership listener", err);
+      }
+    }
+  }
+
+  /**
+   * Listen for changes to the active tabs made by other tabs
+   */
+  private setupStorageListener(): void {
+    if (this.storageListener || !isBrowser()) {
+      return;
+    }
+
+    this.storageListener = (event: StorageEvent) => {
+      if (
+        event.storageArea === this.storage &&
+        event.key === this.activeTabsKey
+      ) {
+        this.notifyTabListeners();
+      }
+    };
+
+    window.addEventListener("storage", this.storageListener);
+  }
+
+  /**
+   * Remove the active tabs storage listener
+   */
+  private removeStorageListener(): void {
+    if (this.storageListener) {
+      window.removeEventListener("storage", this.storageListener);
+      this.storageListener = undefined;
+    }
+  }
 }
@@ -0,0 +1,112 @@
+import { Logger } from "../debug/logger";
+
+export interface VisibilityState {
+  /** Whether the document is visible */
+  visibilityState: DocumentVisibilityState;
+  /** Whether the window has focus */
+  hasFocus: boolean;
+}
+
+export interface VisibilityOptions {
+  /** Treat the user as inactive as soon as the tab is hidden */
+  inactiveWhenHidden?: boolean | undefined;
+  /** Mark the user as active when the tab becomes visible again */
+  markActiveOnVisible?: boolean | undefined;
+}
+
+const readVisibilityState = (): VisibilityState => ({
+  visibilityState:
+    typeof document !== "undefined" ? document.visibilityState : "visible",
+  hasFocus: typeof document !== "undefined" ? document.hasFocus() : true,
+});
+
+/**
+ * Tracks page visibility and window focus of the current tab
+ */
+export class VisibilityTracker {
+  private readonly logger: Logger;
+  private state: VisibilityState = readVisibilityState();
+  private listeners = new Set<
+    (state: VisibilityState, previous: VisibilityState) => void
+  >();
+  private isListening = false;
+  private eventListener = () => this.update();
+
+  constructor(logger: Logger = Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Gets the current visibility state
+   */
+  getState(): VisibilityState {
+    return this.state;
+  }
+
+  /**
+   * Subscribes to visibility and focus changes
+   * @param callback Callback to invoke with the new and the previous state
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    callback: (state: VisibilityState, previous: VisibilityState) => void
+  ): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Starts listening for visibility and focus events
+   */
+  start(): void {
+    if (this.isListening || typeof window === "undefined") {
+      return;
+    }
+
+    document.addEventListener("visibilitychange", this.eventListener);
+    window.addEventListener("focus", this.eventListener);
+    window.addEventListener("blur", this.eventListener);
+    this.isListening = true;
+    this.update();
+  }
+
+  /**
+   * Stops listening and removes all subscribers
+   */
+  stop(): void {
+    if (this.isListening) {
+      document.removeEventListener("visibilitychange", this.eventListener);
+      window.removeEventListener("focus", this.eventListener);
+      window.removeEventListener("blur", this.eventListener);
+      this.isListening = false;
+    }
+
+    this.listeners.clear();
+  }
+
+  private update(): void {
+    const state = readVisibilityState();
+
+    if (
+      state.visibilityState === this.state.visibilityState &&
+      state.hasFocus === this.state.hasFocus
+    ) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    this.logger.info("Visibility changed", { ...state });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(state, previous);
+      } catch (err) {
+        this.logger.error("Error in visibility listener", err);
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Logger } from "../debug/logger";
+
+const WINDOW_WAKE_UP_EVENTS = ["focus", "online", "pageshow"] as const;
+
+export interface WakeUpOptions {
+  /**
+   * Interval of an additional check in milliseconds, for tabs that stay
+   * hidden without any wake-up event (disabled when undefined)
+   */
+  watchdogIntervalInMilliseconds?: number | undefined;
+}
+
+/**
+ * Reports moments after which timers may have run late: browsers throttle
+ * timers in background tabs and do not run them during OS sleep.
+ * A wake-up is reported when the page becomes visible, gains focus,
+ * goes back online or is restored from the back/forward cache,
+ * and on every tick of the optional watchdog.
+ */
+export class WakeUpDetector {
+  private readonly onWakeUp: (reason: string) => void;
+  private readonly watchdogIntervalInMilliseconds: number | undefined;
+  private readonly logger: Logger;
+
+  private isListening = false;
+  private watchdogIntervalId: ReturnType<typeof setInterval> | undefined;
+  private windowListener = (event: Event) => this.report(event.type);
+  private visibilityListener = () => {
+    if (document.visibilityState === "visible") {
+      this.report("visibilitychange");
+    }
+  };
+
+  constructor(
+    onWakeUp: (reason: string) => void,
+    options: WakeUpOptions = {},
+    logger: Logger = Logger
+  ) {
+    this.onWakeUp = onWakeUp;
+    this.watchdogIntervalInMilliseconds =
+      options.watchdogIntervalInMilliseconds;
+    this.logger = logger;
+  }
+
+  /**
+   * Starts listening for wake-ups
+   */
+  start(): void {
+    if (this.isListening) {
+      return;
+    }
+
+    for (const event of WINDOW_WAKE_UP_EVENTS) {
+      window.addEventListener(event, this.windowListener);
+    }
+    document.addEventListener("visibilitychange", this.visibilityListener);
+
+    if (this.watchdogIntervalInMilliseconds !== undefined) {
+      this.watchdogIntervalId = setInterval(
+        () => this.report("watchdog"),
+        this.watchdogIntervalInMilliseconds
+      );
+    }
+
+    this.isListening = true;
+  }
+
+  /**
+   * Removes all listeners and stops the watchdog
+   */
+  stop(): void {
+    if (!this.isListening) {
+      return;
+    }
+
+    for (const event of WINDOW_WAKE_UP_EVENTS) {
+      window.removeEventListener(event, this.windowListener);
+    }
+    document.removeEventListener("visibilitychange", this.visibilityListener);
+    clearInterval(this.watchdogIntervalId);
+    this.watchdogIntervalId = undefined;
+
+    this.isListening = false;
+  }
+
+  private report(reason: string): void {
+    try {
+      this.onWakeUp(reason);
+    } catch (err) {
+      this.logger.error("Error while handling wake-up", err);
+    }
+  }
+}
@@ -1,9 +1,15 @@
 import { Logger } from "../debug/logger";
+import { getLocalStorage, getSessionStorage } from "../utils/environment";
+import { decodeValue, encodeValue, type StorageSchema } from "./storage-schema";
 
 /**
  * Interface representing a storage that conforms to the StorageAPI (e.g. localStorage or sessionStorage).
+ * Custom storage adapters only need to implement this subset of the Web Storage API.
  */
-export type StorageApi = Storage;
+export type StorageApi = Pick<
+  Storage,
+  "getItem" | "setItem" | "removeItem" | "key" | "length" | "clear"
+>;
 
 /**
  * Options for retrieving data from storage.
@@ -14,25 +20,35 @@ export interface GetOptions {
 }
 
 /**
- * Utility class for managing persistent and session-based storage
+ * Utility class for managing persistent and session-based storage.
+ * Diagnostics are written to the logger passed to each method, which
+ * defaults to the module logger.
  */
 export class StorageManager {
   /**
    * Stores a value (serialized as JSON) in the provided storage.
    * @param key The storage key.
    * @param value The value to store.
-   * @param storage Optional storage mechanism (defaults to localStorage).
+   * @param storage Optional storage mechanism (defaults to localStorage when available).
+   * @param logger Logger the diagnostics are written to.
    * @returns True if stored successfully, otherwise false.
    */
   static set<T>(
     key: string,
     value: T,
-    storage: StorageApi = window.localStorage
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
   ): boolean {
     try {
-      return this.setString(key, JSON.stringify(value), storage);
+      return this.setString(
+        key,
+        JSON.stringify(value),
+        storage,
+        undefined,
+        logger
+      );
     } catch (err) {
-      Logger.error("Failed to serialize data for the given storage key", err, {
+      logger.error("Failed to serialize data for the given storage key", err, {
         key,
       });
       return false;
@@ -43,18 +59,20 @@ export class StorageManager {
    * Stores a plain string in the specified storage.
    * @param key The key to store the string under.
    * @param value The string to store.
-   * @param storage Optional storage mechanism (defaults to localStorage).
+   * @param storage Optional storage mechanism (defaults to localStorage when available).
    * @param onError Optional error handler.
+   * @param logger Logger the diagnostics are written to.
    * @returns True if stored successfully, otherwise false.
    */
   static setString(
     key: string,
     value: string,
-    storage: StorageApi = window.localStorage,
-    onError?: (error: Error) => void
+    storage: StorageApi | undefined = getLocalStorage(),
+    onError?: (error: Error) => void,
+    logger: Logger = Logger
   ): boolean {
     if (!storage) {
-      Logger.warning("Storage type not supported");
+      logger.warning("Storage type not supported");
       return false;
     }
     try {
@@ -70,18 +88,30 @@ export class StorageManager {
    * Stores a value in sessionStorage.
    * @param key The key to use.
    * @param value The value to store.
+   * @param logger Logger the diagnostics are written to.
    * @returns True if successful, otherwise false.
    */
-  static setSession<T>(key: string, value: T): boolean {
+  static setSession<T>(
+    key: string,
+    value: T,
+    logger: Logger = Logger
+  ): boolean {
+    const sessionStorage = getSessionStorage();
     try {
       const serialized = JSON.stringify(value);
-      return this.setString(key, serialized, sessionStorage, () => {
-        // Attempt to clear and retry (similar to original)
-        sessionStorage.clear();
-        this.setString(key, serialized, sessionStorage);
-      });
+      return this.setString(
+        key,
+        serialized,
+        sessionStorage,
+        () => {
+          // Attempt to clear and retry (similar to original)
+          sessionStorage?.clear();
+          this.setString(key, serialized, sessionStorage, undefined, logger);
+        },
+        logger
+      );
     } catch (err) {
-      Logger.error("Failed to serialize data for the given storage key", err, {
+      logger.error("Failed to serialize data for the given storage key", err, {
         key,
       });
       return false;
@@ -93,29 +123,89 @@ export class StorageManager {
    */
   static get<T>(
     key: string,
-    storage: StorageApi = window.localStorage,
-    options: GetOptions = { logError: true }
+    storage: StorageApi | undefined = getLocalStorage(),
+    options: GetOptions = { logError: true },
+    logger: Logger = Logger
   ): T | undefined {
     try {
-      const json = this.getString(key, storage);
+      const json = this.getString(key, storage, logger);
       return json ? JSON.parse(json) : undefined;
     } catch (err) {
       if (options.logError)
-        Logger.error("Failed to load local storage key", err, { key });
+        logger.error("Failed to load local storage key", err, { key });
 
       return undefined;
     }
   }
 
+  /**
+   * Stores a value in an envelope with the version of its format.
+   * @param key The storage key.
+   * @param value The value to store.
+   * @param schema Format of the value.
+   * @param storage Optional storage mechanism (defaults to localStorage when available).
+   * @param logger Logger the diagnostics are written to.
+   * @returns True if stored successfully, otherwise false.
+   */
+  static setVersioned<T>(
+    key: string,
+    value: T,
+    schema: StorageSchema<T>,
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
+  ): boolean {
+    return this.set(key, encodeValue(value, schema), storage, logger);
+  }
+
+  /**
+   * Retrieves a versioned value from storage, migrating values of older versions.
+   * Corrupt values are removed, values of newer versions that cannot be read are ignored.
+   */
+  static getVersioned<T>(
+    key: string,
+    schema: StorageSchema<T>,
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
+  ): T | undefined {
+    const stored = this.get<unknown>(key, storage, { logError: false }, logger);
+
+    if (stored === undefined || stored === null) {
+      // Anything still stored is not valid JSON
+      if (storage && this.getString(key, storage, logger) !== undefined) {
+        logger.warning("Removing corrupt storage value", { key });
+        this.remove(key, storage, logger);
+      }
+
+      return undefined;
+    }
+
+    const decoded = decodeValue(stored, schema);
+
+    switch (decoded.status) {
+      case "valid":
+        return decoded.value;
+      case "unsupported":
+        logger.info("Ignoring storage value of a newer version", {
+          key,
+          version: decoded.version,
+        });
+        return undefined;
+      case "corrupt":
+        logger.warning("Removing corrupt storage value", { key });
+        this.remove(key, storage, logger);
+        return undefined;
+    }
+  }
+
   /**
    * Retrieves a value from sessionStorage.
    */
-  static getSession<T>(key: string): T | undefined {
+  static getSession<T>(key: string, logger: Logger = Logger): T | undefined {
     try {
-      const json = this.getString(key, sessionStorage);
+      const json = this.getString(key, getSessionStorage(), logger);
       return json ? JSON.parse(json) : undefined;
     } catch (err) {
-      Logger.error("Failed to load session storage key", err, { key });
+      logger.error("Failed to load session storage key", err, { key });
 
       return undefined;
     }
@@ -126,17 +216,18 @@ export class StorageManager {
    */
   static getString(
     key: string,
-    storage: StorageApi = window.localStorage
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
   ): string | undefined {
     if (!storage) {
-      Logger.warning("Storage type not supported");
+      logger.warning("Storage type not supported");
 
       return undefined;
     }
     try {
       return storage.getItem(key) ?? undefined;
     } catch (err) {
-      Logger.info("Failed reading storage item", { key, error: err });
+      logger.info("Failed reading storage item", { key, error: err });
 
       return undefined;
     }
@@ -145,16 +236,20 @@ export class StorageManager {
   /**
    * Removes a specific key from storage.
    */
-  static remove(key: string, storage: StorageApi = window.localStorage): void {
+  static remove(
+    key: string,
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
+  ): void {
     if (!storage) {
-      Logger.warning("Storage type not supported");
+      logger.warning("Storage type not supported");
 
       return;
     }
     try {
       storage.removeItem(key);
     } catch (err) {
-      Logger.info("Failed removing storage item", { key, error: err });
+      logger.info("Failed removing storage item", { key, error: err });
     }
   }
 
@@ -163,28 +258,32 @@ export class StorageManager {
    */
   static removeAllWithCondition(
     predicate: (key: string) => boolean,
-    storage: StorageApi = window.localStorage
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
   ): void {
     if (!storage) {
-      Logger.warning("Storage type not supported");
+      logger.warning("Storage type not supported");
 
       return;
     }
-    for (const key of this.getKeys(storage)) {
+    for (const key of this.getKeys(storage, logger)) {
       if (predicate(key)) storage.removeItem(key);
     }
   }
 
-  static removeSession(key: string): void {
-    this.remove(key, sessionStorage);
+  static removeSession(key: string, logger: Logger = Logger): void {
+    this.remove(key, getSessionStorage(), logger);
   }
 
   /**
    * Clears all keys in a given storage.
    */
-  static clear(storage: StorageApi = window.localStorage): void {
+  static clear(
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
+  ): void {
     if (!storage) {
-      Logger.warning("Storage type not supported");
+      logger.warning("Storage type not supported");
 
       return;
     }
@@ -194,8 +293,16 @@ export class StorageManager {
   /**
    * Returns all keys in a given storage.
    */
-  static getKeys(storage: StorageApi = window.localStorage): string[] {
+  static getKeys(
+    storage: StorageApi | undefined = getLocalStorage(),
+    logger: Logger = Logger
+  ): string[] {
     const keys: string[] = [];
+    if (!storage) {
+      logger.warning("Storage type not supported");
+
+      return keys;
+    }
     for (let i = 0; i < storage.length; i++) {
       const key = storage.key(i);
       if (key) keys.push(key);
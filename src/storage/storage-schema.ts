@@ -0,0 +1,123 @@
+/** Version of values written before they were wrapped in an envelope */
+export const LEGACY_STORAGE_VERSION = 0;
+
+/**
+ * Format of a persisted value. Every value is stored in an envelope
+ * carrying the version of the format it was written in.
+ */
+export interface StorageSchema<T> {
+  /** Version of the format written by this build */
+  version: number;
+  /** Checks that a value has the current format */
+  validate: (value: unknown) => value is T;
+  /**
+   * Upgrades a value to the next version, by the version it upgrades from.
+   * Versions without a migration keep their value as it is.
+   */
+  migrations?:
+    Readonly<Record<number, (value: unknown) => unknown>> | undefined;
+}
+
+/**
+ * Envelope of a persisted value
+ */
+export interface VersionedValue<T> {
+  /** Version of the format the value was written in */
+  version: number;
+  value: T;
+}
+
+/**
+ * Result of reading a persisted value. Values that cannot be read are
+ * "corrupt" when written in this or an older version, or "unsupported"
+ * when written by a newer build (e.g. in another tab not reloaded yet).
+ */
+export type DecodedValue<T> =
+  | { status: "valid"; value: T }
+  | { status: "corrupt" }
+  | { status: "unsupported"; version: number };
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isVersionedValue = (value: unknown): value is VersionedValue<unknown> =>
+  isRecord(value) &&
+  Object.keys(value).length === 2 &&
+  "value" in value &&
+  Number.isInteger(value["version"]) &&
+  (value["version"] as number) > LEGACY_STORAGE_VERSION;
+
+/**
+ * A timestamp in milliseconds
+ */
+export const TIMESTAMP_SCHEMA: StorageSchema<number> = {
+  version: 1,
+  validate: isFiniteNumber,
+};
+
+/**
+ * Wraps a value in an envelope with the current version of its format
+ */
+export const encodeValue = <T>(
+  value: T,
+  schema: StorageSchema<T>
+): VersionedValue<T> => ({ version: schema.version, value });
+
+/**
+ * Unwraps, migrates and validates a persisted value.
+ * Values without an envelope are read as the legacy version.
+ * Values of newer versions are used as long as they pass the validation
+ * of the current version, so formats can be extended without breaking
+ * older builds.
+ */
+export const decodeValue = <T>(
+  stored: unknown,
+  schema: StorageSchema<T>
+): DecodedValue<T> => {
+  let { version, value } = isVersionedValue(stored)
+    ? stored
+    : { version: LEGACY_STORAGE_VERSION, value: stored };
+
+  if (version > schema.version) {
+    return schema.validate(value)
+      ? { status: "valid", value }
+      : { status: "unsupported", version };
+  }
+
+  try {
+    for (; version < schema.version; version++) {
+      const migrate = schema.migrations?.[version];
+
+      if (migrate) {
+        value = migrate(value);
+      }
+    }
+  } catch {
+    return { status: "corrupt" };
+  }
+
+  return schema.validate(value)
+    ? { status: "valid", value }
+    : { status: "corrupt" };
+};
+
+/**
+ * Parses a persisted JSON string, e.g. the new value of a storage event
+ */
+export const parseValue = <T>(
+  json: string,
+  schema: StorageSchema<T>
+): DecodedValue<T> => {
+  let stored: unknown;
+
+  try {
+    stored = JSON.parse(json);
+  } catch {
+    return { status: "corrupt" };
+  }
+
+  return decodeValue(stored, schema);
+};
@@ -0,0 +1,68 @@
+import { Logger } from "../debug/logger";
+import {
+  isSyncMessage,
+  type SyncMessage,
+  type SyncTransport,
+} from "./sync-transport";
+
+/**
+ * Syncs messages between tabs of the same origin using a BroadcastChannel
+ */
+export class BroadcastChannelTransport implements SyncTransport {
+  private readonly channel: BroadcastChannel;
+  private readonly logger: Logger;
+  private listeners = new Set<(message: SyncMessage) => void>();
+  private messageListener = (event: MessageEvent) => {
+    if (!isSyncMessage(event.data)) {
+      this.logger.warning("Ignoring invalid sync message", {
+        data: event.data,
+      });
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event.data);
+      } catch (err) {
+        this.logger.error("Error in sync message listener", err);
+      }
+    }
+  };
+
+  /**
+   * Checks whether BroadcastChannel is available in the current environment
+   */
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== "undefined";
+  }
+
+  constructor(channelName: string, logger: Logger = Logger) {
+    this.logger = logger;
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.addEventListener("message", this.messageListener);
+  }
+
+  post(message: SyncMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (err) {
+      this.logger.error("Failed to post sync message", err, {
+        type: message.type,
+      });
+    }
+  }
+
+  subscribe(callback: (message: SyncMessage) => void): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.channel.removeEventListener("message", this.messageListener);
+    this.channel.close();
+  }
+}
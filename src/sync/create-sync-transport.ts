@@ -0,0 +1,46 @@
+import { Logger } from "../debug/logger";
+import type { StorageApi } from "../storage/storage-manager";
+import { BroadcastChannelTransport } from "./broadcast-channel-transport";
+import { StorageEventTransport } from "./storage-event-transport";
+import type { SyncTransport, SyncTransportKind } from "./sync-transport";
+
+export interface CreateSyncTransportOptions {
+  /** Name of the BroadcastChannel and storage key used for messages */
+  channelName: string;
+  /** Storage used by the storage event fallback */
+  storage: StorageApi | undefined;
+  /** Storage key holding the last activity timestamp */
+  activityKey: string;
+  /** Logger used for diagnostics */
+  logger?: Logger | undefined;
+}
+
+/**
+ * Creates the sync transport for the given kind.
+ * Custom transports are returned as is.
+ */
+export const createSyncTransport = (
+  transport: SyncTransportKind | SyncTransport,
+  options: CreateSyncTransportOptions
+): SyncTransport => {
+  if (typeof transport !== "string") {
+    return transport;
+  }
+
+  if (transport !== "storage" && BroadcastChannelTransport.isSupported()) {
+    return new BroadcastChannelTransport(options.channelName, options.logger);
+  }
+
+  if (transport === "broadcast-channel") {
+    (options.logger ?? Logger).warning(
+      "BroadcastChannel is not supported, falling back to storage events"
+    );
+  }
+
+  return new StorageEventTransport({
+    storage: options.storage,
+    channelKey: options.channelName,
+    activityKey: options.activityKey,
+    logger: options.logger,
+  });
+};
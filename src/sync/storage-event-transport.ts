@@ -0,0 +1,146 @@
+import { Logger } from "../debug/logger";
+import { StorageManager, type StorageApi } from "../storage/storage-manager";
+import {
+  isRecord,
+  parseValue,
+  TIMESTAMP_SCHEMA,
+  type StorageSchema,
+} from "../storage/storage-schema";
+import {
+  isSyncMessage,
+  type SyncMessage,
+  type SyncTransport,
+} from "./sync-transport";
+
+export interface StorageEventTransportOptions {
+  /** Storage the messages are written to */
+  storage: StorageApi | undefined;
+  /** Storage key used to exchange messages */
+  channelKey: string;
+  /** Storage key holding the last activity timestamp */
+  activityKey: string;
+  /** Logger used for diagnostics */
+  logger?: Logger | undefined;
+}
+
+interface StoredSyncMessage {
+  message: SyncMessage;
+  /** Makes every write unique so a storage event fires for repeated messages */
+  nonce: string;
+}
+
+const STORED_SYNC_MESSAGE_SCHEMA: StorageSchema<StoredSyncMessage> = {
+  version: 1,
+  validate: (value): value is StoredSyncMessage =>
+    isRecord(value) &&
+    isSyncMessage(value["message"]) &&
+    typeof value["nonce"] === "string",
+};
+
+/**
+ * Syncs messages between tabs using window `storage` events.
+ * Activity is picked up from changes to the persisted activity key,
+ * other messages are written to a dedicated channel key.
+ */
+export class StorageEventTransport implements SyncTransport {
+  private readonly options: StorageEventTransportOptions;
+  private readonly logger: Logger;
+  private listeners = new Set<(message: SyncMessage) => void>();
+  private storageListener = (event: StorageEvent) =>
+    this.handleStorageEvent(event);
+
+  constructor(options: StorageEventTransportOptions) {
+    this.options = options;
+    this.logger = options.logger ?? Logger;
+    window.addEventListener("storage", this.storageListener);
+    this.logger.info(
+      "Setting up storage listener for activity sync across tabs"
+    );
+  }
+
+  post(message: SyncMessage): void {
+    // Activity is already persisted under the activity key, which notifies other tabs
+    if (message.type === "activity") {
+      return;
+    }
+
+    const stored: StoredSyncMessage = {
+      message,
+      nonce: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
+    };
+
+    StorageManager.setVersioned(
+      this.options.channelKey,
+      stored,
+      STORED_SYNC_MESSAGE_SCHEMA,
+      this.options.storage,
+      this.logger
+    );
+  }
+
+  subscribe(callback: (message: SyncMessage) => void): () => void {
+    this.listeners.add(callback);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  close(): void {
+    this.listeners.clear();
+    window.removeEventListener("storage", this.storageListener);
+    this.logger.info("Storage listener removed");
+  }
+
+  /**
+   * Converts a storage event into a sync message
+   */
+  private handleStorageEvent(event: StorageEvent): void {
+    // Ignore events from other storage areas (e.g. sessionStorage when using localStorage)
+    if (event.storageArea !== this.options.storage || !event.newValue) {
+      return;
+    }
+
+    if (event.key === this.options.activityKey) {
+      this.logger.info("Storage event detected for activity sync", {
+        key: event.key,
+        newValue: event.newValue,
+      });
+
+      const decoded = parseValue(event.newValue, TIMESTAMP_SCHEMA);
+
+      if (decoded.status !== "valid") {
+        this.logger.error("Failed to parse activity timestamp", undefined, {
+          newValue: event.newValue,
+        });
+        return;
+      }
+
+      this.emit({ type: "activity", timestamp: decoded.value });
+      return;
+    }
+
+    if (event.key === this.options.channelKey) {
+      const decoded = parseValue(event.newValue, STORED_SYNC_MESSAGE_SCHEMA);
+
+      // Messages of newer versions may have types this build does not know
+      if (decoded.status === "valid") {
+        this.emit(decoded.value.message);
+      } else {
+        this.logger.warning("Ignoring invalid sync message", {
+          newValue: event.newValue,
+        });
+      }
+    }
+  }
+
+  private emit(message: SyncMessage): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (err) {
+        this.logger.error("Error in sync message listener", err);
+      }
+    }
+  }
+}
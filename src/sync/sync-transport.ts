@@ -0,0 +1,120 @@
+import type { ActivitySource } from "../managers/activity-manager";
+
+/**
+ * Messages exchanged between tabs to keep inactify state in sync
+ */
+export type SyncMessage =
+  | {
+      type: "activity";
+      /** ID of the tab the message originates from (unknown for storage events) */
+      tabId?: string | undefined;
+      /** Last activity timestamp in milliseconds */
+      timestamp: number;
+      /** What caused the activity in the originating tab */
+      source?: Exclude<ActivitySource, "remote"> | undefined;
+      /** Optional custom label of the activity */
+      label?: string | undefined;
+    }
+  | {
+      type: "logout";
+      tabId?: string | undefined;
+      /** Optional reason why the session ended */
+      reason?: string | undefined;
+    }
+  | {
+      type: "tab-joined";
+      tabId?: string | undefined;
+    }
+  | {
+      type: "pause";
+      tabId?: string | undefined;
+      /** Time idle tracking was paused in milliseconds */
+      pausedAt: number;
+    }
+  | {
+      type: "resume";
+      tabId?: string | undefined;
+      /** Last activity shifted by the paused duration, if it was shifted */
+      lastActive?: number | undefined;
+    }
+  | {
+      type: "clear";
+      tabId?: string | undefined;
+      /** Whether idle tracking was paused before the storage was cleared */
+      wasPaused: boolean;
+    };
+
+export type SyncMessageType = SyncMessage["type"];
+
+/**
+ * A transport used to send and receive sync messages between tabs
+ */
+export interface SyncTransport {
+  /**
+   * Sends a message to all other tabs
+   * @param message The message to send
+   */
+  post(message: SyncMessage): void;
+
+  /**
+   * Subscribes to messages sent from other tabs
+   * @param callback Callback to invoke for each received message
+   * @returns Unsubscribe function
+   */
+  subscribe(callback: (message: SyncMessage) => void): () => void;
+
+  /**
+   * Releases all resources held by the transport
+   */
+  close(): void;
+}
+
+/**
+ * Built-in transports.
+ * "auto" uses BroadcastChannel when available and falls back to storage events.
+ */
+export type SyncTransportKind = "auto" | "broadcast-channel" | "storage";
+
+const SYNC_MESSAGE_TYPES: readonly SyncMessageType[] = [
+  "activity",
+  "logout",
+  "tab-joined",
+  "pause",
+  "resume",
+  "clear",
+];
+
+/**
+ * Checks whether an unknown value received from another tab is a valid sync message
+ */
+export const isSyncMessage = (value: unknown): value is SyncMessage => {
+  if (typeof value !== "object" || value === null || !("type" in value)) {
+    return false;
+  }
+
+  const { type } = value as { type: unknown };
+
+  if (!SYNC_MESSAGE_TYPES.includes(type as SyncMessageType)) {
+    return false;
+  }
+
+  if (type === "activity") {
+    return typeof (value as { timestamp?: unknown }).timestamp === "number";
+  }
+
+  if (type === "pause") {
+    return typeof (value as { pausedAt?: unknown }).pausedAt === "number";
+  }
+
+  if (type === "resume") {
+    const { lastActive } = value as { lastActive?: unknown };
+
+    return lastActive === undefined || typeof lastActive === "number";
+  }
+
+  if (type === "clear") {
+    return typeof (value as { wasPaused?: unknown }).wasPaused === "boolean";
+  }
+
+  return true;
+};
@@ -0,0 +1,104 @@
+import React from "react";
+import {
+  InactifyProvider,
+  type InactifyProviderOptions,
+} from "../InactifyProvider";
+import type { StorageApi } from "../storage/storage-manager";
+import { FakeClock } from "./fake-clock";
+import { SharedMemoryStorage } from "./shared-memory-storage";
+
+export interface TestInactifyOptions {
+  /** Initial time of the fake clock (defaults to the current time) */
+  now?: number | Date | undefined;
+  /** Options of the providers of all tabs */
+  defaultOptions?: InactifyProviderOptions | undefined;
+}
+
+export interface TestTabProviderProps {
+  children: React.ReactNode;
+  /** Name of a separate idle clock, reachable through useInactify(scope) */
+  scope?: string;
+}
+
+export interface TestTab {
+  /** ID of the simulated tab */
+  tabId: string;
+  /** Storage area of the tab, shared with all other tabs */
+  storage: StorageApi;
+  /** Provider options connecting the tab to the shared storage */
+  defaultOptions: InactifyProviderOptions;
+  /** InactifyProvider of the tab, e.g. the wrapper of renderHook */
+  Provider: (props: TestTabProviderProps) => React.ReactElement;
+  /** Stops delivering storage events to the tab, unmount its providers first */
+  close: () => void;
+}
+
+export interface TestInactify {
+  /** Clock driving Date.now, performance.now and all timers */
+  clock: FakeClock;
+  /** Storage shared by all simulated tabs */
+  storage: SharedMemoryStorage;
+  /** Opens a simulated tab, with options overriding those of the harness */
+  openTab: (defaultOptions?: InactifyProviderOptions) => TestTab;
+  /** Closes all tabs, clears the storage and restores the real clock */
+  cleanup: () => void;
+}
+
+/**
+ * Creates a harness for tests against useInactify. Installs a fake clock
+ * and simulates tabs that share an in-memory storage, syncing through
+ * real `storage` events.
+ * All tabs share the window, so DOM events (e.g. visibility changes)
+ * reach every tab.
+ */
+export const createTestInactify = (
+  options: TestInactifyOptions = {}
+): TestInactify => {
+  const clock = new FakeClock({ now: options.now });
+  const storage = new SharedMemoryStorage();
+  const tabs = new Set<TestTab>();
+  let tabCount = 0;
+
+  clock.install();
+
+  const openTab = (tabOptions: InactifyProviderOptions = {}): TestTab => {
+    const tabId = `tab-${++tabCount}`;
+    const area = storage.createArea();
+    const merged = { ...options.defaultOptions, ...tabOptions };
+    const defaultOptions: InactifyProviderOptions = {
+      ...merged,
+      storage: area,
+      syncTransport: "storage",
+      tabTracking: { ...merged.tabTracking, tabId },
+    };
+
+    const tab: TestTab = {
+      tabId,
+      storage: area,
+      defaultOptions,
+      Provider: (props) => (
+        <InactifyProvider {...props} defaultOptions={defaultOptions} />
+      ),
+      close: () => storage.removeArea(area),
+    };
+
+    tabs.add(tab);
+
+    return tab;
+  };
+
+  return {
+    clock,
+    storage,
+    openTab,
+    cleanup: () => {
+      for (const tab of tabs) {
+        tab.close();
+      }
+
+      tabs.clear();
+      storage.reset();
+      clock.uninstall();
+    },
+  };
+};
@@ -0,0 +1,220 @@
+export interface FakeClockOptions {
+  /** Initial wall clock time (defaults to the current time) */
+  now?: number | Date | undefined;
+}
+
+interface FakeTimer {
+  callback: (...args: unknown[]) => void;
+  args: unknown[];
+  /** Monotonic time the timer is due at in milliseconds */
+  dueAt: number;
+  /** Time between two runs of an interval in milliseconds */
+  intervalInMilliseconds?: number | undefined;
+}
+
+interface ClockGlobals {
+  dateNow: typeof Date.now;
+  performanceNow: typeof performance.now;
+  setTimeout: typeof setTimeout;
+  clearTimeout: typeof clearTimeout;
+  setInterval: typeof setInterval;
+  clearInterval: typeof clearInterval;
+}
+
+type TimerTarget = Pick<
+  typeof globalThis,
+  "setTimeout" | "clearTimeout" | "setInterval" | "clearInterval"
+>;
+
+/**
+ * Deterministic replacement of the clocks and timers the library reads:
+ * Date.now, performance.now, setTimeout and setInterval.
+ * Time only moves when advanced, running the due timers in order, so
+ * subscribeToInactivity callbacks fire exactly when their timeout is reached.
+ */
+export class FakeClock {
+  private monotonicTime = 0;
+  private wallClockOffset: number;
+  private timers = new Map<number, FakeTimer>();
+  private nextTimerId = 1;
+  private originals: ClockGlobals | undefined;
+
+  constructor(options: FakeClockOptions = {}) {
+    const now = options.now ?? Date.now();
+    this.wallClockOffset = typeof now === "number" ? now : now.getTime();
+  }
+
+  /**
+   * Gets the current wall clock time in milliseconds
+   */
+  now(): number {
+    return this.wallClockOffset + this.monotonicTime;
+  }
+
+  /**
+   * Replaces the global clocks and timers (and those of window) with this clock
+   */
+  install(): void {
+    if (this.originals) {
+      return;
+    }
+
+    this.originals = {
+      dateNow: Date.now,
+      performanceNow: performance.now,
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+    };
+
+    Date.now = () => this.now();
+    performance.now = () => this.monotonicTime;
+
+    for (const target of this.getTimerTargets()) {
+      target.setTimeout = ((
+        handler: TimerHandler,
+        timeout?: number,
+        ...args: unknown[]
+      ) => this.addTimer(handler, timeout, args)) as typeof setTimeout;
+      target.clearTimeout = ((id?: number) =>
+        this.removeTimer(id)) as typeof clearTimeout;
+      target.setInterval = ((
+        handler: TimerHandler,
+        timeout?: number,
+        ...args: unknown[]
+      ) => this.addTimer(handler, timeout, args, true)) as typeof setInterval;
+      target.clearInterval = ((id?: number) =>
+        this.removeTimer(id)) as typeof clearInterval;
+    }
+  }
+
+  /**
+   * Restores the real clocks and timers, dropping the pending fake timers
+   */
+  uninstall(): void {
+    const originals = this.originals;
+
+    if (!originals) {
+      return;
+    }
+
+    Date.now = originals.dateNow;
+    performance.now = originals.performanceNow;
+
+    for (const target of this.getTimerTargets()) {
+      target.setTimeout = originals.setTimeout;
+      target.clearTimeout = originals.clearTimeout;
+      target.setInterval = originals.setInterval;
+      target.clearInterval = originals.clearInterval;
+    }
+
+    this.originals = undefined;
+    this.timers.clear();
+  }
+
+  /**
+   * Moves both clocks forward, running every timer that becomes due
+   * in the order it is due
+   * @param timeInMilliseconds Time to advance by
+   */
+  advance(timeInMilliseconds: number): void {
+    const target = this.monotonicTime + timeInMilliseconds;
+
+    for (;;) {
+      const next = this.getNextTimer(target);
+
+      if (!next) {
+        break;
+      }
+
+      const [id, timer] = next;
+      this.monotonicTime = Math.max(this.monotonicTime, timer.dueAt);
+
+      if (timer.intervalInMilliseconds === undefined) {
+        this.timers.delete(id);
+      } else {
+        timer.dueAt += timer.intervalInMilliseconds;
+      }
+
+      timer.callback(...timer.args);
+    }
+
+    this.monotonicTime = target;
+  }
+
+  /**
+   * Sets the wall clock without moving the monotonic clock or running timers,
+   * like a change of the system clock
+   * @param time The new wall clock time
+   */
+  setSystemTime(time: number | Date): void {
+    const wallTime = typeof time === "number" ? time : time.getTime();
+    this.wallClockOffset = wallTime - this.monotonicTime;
+  }
+
+  /**
+   * Gets the number of pending timeouts and intervals
+   */
+  getTimerCount(): number {
+    return this.timers.size;
+  }
+
+  private getTimerTargets(): Set<TimerTarget> {
+    const targets = new Set<TimerTarget>([globalThis]);
+
+    if (typeof window !== "undefined") {
+      targets.add(window);
+    }
+
+    return targets;
+  }
+
+  private addTimer(
+    handler: TimerHandler,
+    timeout: number | undefined,
+    args: unknown[],
+    isInterval = false
+  ): number {
+    if (typeof handler !== "function") {
+      throw new TypeError("FakeClock only supports function callbacks");
+    }
+
+    const id = this.nextTimerId++;
+    const delay = Math.max(0, timeout ?? 0);
+
+    this.timers.set(id, {
+      callback: handler as (...args: unknown[]) => void,
+      args,
+      dueAt: this.monotonicTime + delay,
+      // Intervals of 0 would run forever within a single advance
+      intervalInMilliseconds: isInterval ? Math.max(1, delay) : undefined,
+    });
+
+    return id;
+  }
+
+  private removeTimer(id: number | undefined): void {
+    if (id !== undefined) {
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Gets the timer due first up to a time, the one created first on ties
+   */
+  private getNextTimer(until: number): [number, FakeTimer] | undefined {
+    let next: [number, FakeTimer] | undefined;
+
+    for (const entry of this.timers) {
+      if (
+        entry[1].dueAt <= until &&
+        (!next || entry[1].dueAt < next[1].dueAt)
+      ) {
+        next = entry;
+      }
+    }
+
+    return next;
+  }
+}
@@ -0,0 +1,10 @@
+export { createTestInactify } from "./create-test-inactify";
+export { FakeClock } from "./fake-clock";
+export { SharedMemoryStorage } from "./shared-memory-storage";
+export type {
+  TestInactify,
+  TestInactifyOptions,
+  TestTab,
+  TestTabProviderProps,
+} from "./create-test-inactify";
+export type { FakeClockOptions } from "./fake-clock";
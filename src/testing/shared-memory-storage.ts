@@ -0,0 +1,126 @@
+import type { StorageApi } from "../storage/storage-manager";
+
+/**
+ * In-memory storage shared by simulated tabs. Every tab reads and writes
+ * through its own area, and every change dispatches a window `storage` event
+ * for the areas of all other tabs, like localStorage does between real tabs.
+ */
+export class SharedMemoryStorage {
+  private readonly items = new Map<string, string>();
+  private readonly areas = new Set<StorageApi>();
+  private readonly pendingEvents: (() => void)[] = [];
+  private isDispatching = false;
+
+  /**
+   * Creates the storage area of a tab
+   */
+  createArea(): StorageApi {
+    const items = this.items;
+    const area: StorageApi = {
+      get length() {
+        return items.size;
+      },
+      key: (index) => [...this.items.keys()][index] ?? null,
+      getItem: (key) => this.items.get(key) ?? null,
+      setItem: (key, value) => {
+        const oldValue = this.items.get(key) ?? null;
+        const newValue = String(value);
+        this.items.set(key, newValue);
+
+        if (oldValue !== newValue) {
+          this.notify(area, key, oldValue, newValue);
+        }
+      },
+      removeItem: (key) => {
+        const oldValue = this.items.get(key);
+
+        if (oldValue !== undefined) {
+          this.items.delete(key);
+          this.notify(area, key, oldValue, null);
+        }
+      },
+      clear: () => {
+        if (this.items.size > 0) {
+          this.items.clear();
+          this.notify(area, null, null, null);
+        }
+      },
+    };
+
+    this.areas.add(area);
+
+    return area;
+  }
+
+  /**
+   * Stops dispatching storage events for an area, e.g. of a closed tab
+   */
+  removeArea(area: StorageApi): void {
+    this.areas.delete(area);
+  }
+
+  /**
+   * Removes all items without dispatching storage events
+   */
+  reset(): void {
+    this.items.clear();
+  }
+
+  /**
+   * Dispatches a storage event for every other area. Events caused by
+   * listeners are dispatched after the current one, not in between.
+   */
+  private notify(
+    source: StorageApi,
+    key: string | null,
+    oldValue: string | null,
+    newValue: string | null
+  ): void {
+    for (const area of this.areas) {
+      if (area !== source) {
+        this.pendingEvents.push(() =>
+          window.dispatchEvent(
+            createStorageEvent(area, key, oldValue, newValue)
+          )
+        );
+      }
+    }
+
+    if (this.isDispatching) {
+      return;
+    }
+
+    this.isDispatching = true;
+
+    try {
+      for (
+        let dispatch = this.pendingEvents.shift();
+        dispatch;
+        dispatch = this.pendingEvents.shift()
+      ) {
+        dispatch();
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+}
+
+const createStorageEvent = (
+  storageArea: StorageApi,
+  key: string | null,
+  oldValue: string | null,
+  newValue: string | null
+): StorageEvent => {
+  const event = new StorageEvent("storage", {
+    key,
+    oldValue,
+    newValue,
+    url: window.location.href,
+  });
+
+  // The event init only accepts the storage areas of the environment
+  Object.defineProperty(event, "storageArea", { value: storageArea });
+
+  return event;
+};
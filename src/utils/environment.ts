@@ -0,0 +1,29 @@
+/**
+ * Checks whether the code runs in a browser (and not during server-side rendering)
+ */
+export const isBrowser = (): boolean =>
+  typeof window !== "undefined" && typeof document !== "undefined";
+
+/**
+ * Gets localStorage, or undefined when it is not available (e.g. on the server)
+ */
+export const getLocalStorage = (): Storage | undefined => {
+  try {
+    return isBrowser() ? window.localStorage : undefined;
+  } catch {
+    // Accessing localStorage throws when storage is disabled by the browser
+    return undefined;
+  }
+};
+
+/**
+ * Gets sessionStorage, or undefined when it is not available (e.g. on the server)
+ */
+export const getSessionStorage = (): Storage | undefined => {
+  try {
+    return isBrowser() ? window.sessionStorage : undefined;
+  } catch {
+    // Accessing sessionStorage throws when storage is disabled by the browser
+    return undefined;
+  }
+};
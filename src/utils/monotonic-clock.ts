@@ -0,0 +1,59 @@
+const DEFAULT_JUMP_THRESHOLD_IN_MILLISECONDS = 10 * 1000;
+
+export interface ClockOptions {
+  /**
+   * Difference between the wall clock and the monotonic clock in milliseconds
+   * from which the wall clock counts as changed. Timestamps further than this
+   * in the future are rejected.
+   */
+  jumpThresholdInMilliseconds?: number | undefined;
+  /** Time between two checks for wall clock jumps in milliseconds */
+  checkIntervalInMilliseconds?: number | undefined;
+}
+
+/**
+ * Wall clock time that advances with performance.now() deltas, so small
+ * adjustments of the system clock do not affect measured durations.
+ * When the wall clock jumps further than the threshold (e.g. it was changed
+ * or the device resumed from suspend), the clock re-anchors to the wall clock,
+ * which storage and other tabs use, and reports the jump.
+ */
+export class MonotonicClock {
+  readonly jumpThresholdInMilliseconds: number;
+
+  private readonly onJump: (deltaInMilliseconds: number) => void;
+
+  private anchorWallTime = Date.now();
+  private anchorMonotonicTime = performance.now();
+
+  constructor(
+    options: ClockOptions,
+    onJump: (deltaInMilliseconds: number) => void
+  ) {
+    this.jumpThresholdInMilliseconds =
+      options.jumpThresholdInMilliseconds ??
+      DEFAULT_JUMP_THRESHOLD_IN_MILLISECONDS;
+    this.onJump = onJump;
+  }
+
+  /**
+   * Gets the current time in milliseconds
+   */
+  now(): number {
+    const monotonicNow = Math.round(
+      this.anchorWallTime + (performance.now() - this.anchorMonotonicTime)
+    );
+    const wallNow = Date.now();
+    const deltaInMilliseconds = wallNow - monotonicNow;
+
+    if (Math.abs(deltaInMilliseconds) < this.jumpThresholdInMilliseconds) {
+      return monotonicNow;
+    }
+
+    this.anchorWallTime = wallNow;
+    this.anchorMonotonicTime = performance.now();
+    this.onJump(deltaInMilliseconds);
+
+    return wallNow;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ActivityDetector } from "../src/managers/activity-detector";
+import { ActivityManager } from "../src/managers/activity-manager";
+import { TabManager } from "../src/managers/tab-manager";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe("ActivityDetector", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("reports activity for the configured events on the target", () => {
+    const target = document.createElement("div");
+    const onActivity = vi.fn();
+    const detector = new ActivityDetector(onActivity, {
+      events: ["keydown"],
+      target,
+    });
+
+    detector.start();
+    target.dispatchEvent(new Event("mousemove"));
+    expect(onActivity).not.toHaveBeenCalled();
+
+    target.dispatchEvent(new Event("keydown"));
+    expect(onActivity).toHaveBeenCalledTimes(1);
+
+    detector.stop();
+  });
+
+  it("throttles activity reports", () => {
+    const onActivity = vi.fn();
+    const detector = new ActivityDetector(onActivity, {
+      throttleInMilliseconds: 1000,
+    });
+
+    detector.start();
+    document.dispatchEvent(new Event("mousemove"));
+    document.dispatchEvent(new Event("mousemove"));
+    expect(onActivity).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    document.dispatchEvent(new Event("mousemove"));
+    expect(onActivity).toHaveBeenCalledTimes(2);
+
+    detector.stop();
+  });
+
+  it("stops reporting after stop", () => {
+    const onActivity = vi.fn();
+    const detector = new ActivityDetector(onActivity);
+
+    detector.start();
+    detector.stop();
+    document.dispatchEvent(new Event("keydown"));
+
+    expect(onActivity).not.toHaveBeenCalled();
+  });
+
+  it("is torn down by ActivityManager.destroy", () => {
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      activityDetection: { events: ["keydown"] },
+    });
+    const markActiveSpy = vi.spyOn(activity, "markActive");
+
+    document.dispatchEvent(new Event("keydown"));
+    expect(markActiveSpy).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+    vi.advanceTimersByTime(5000);
+    document.dispatchEvent(new Event("keydown"));
+    expect(markActiveSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { ActivityManager } from "../src/managers/activity-manager";
 import { StorageManager } from "../src/storage/storage-manager";
 import { TabManager } from "../src/managers/tab-manager";
+import type { SyncMessage, SyncTransport } from "../src/sync/sync-transport";
+import { SharedMemoryStorage } from "../src/testing";
 
 vi.mock("../src/debug/logger", () => ({
   Logger: {
@@ -11,13 +13,32 @@ vi.mock("../src/debug/logger", () => ({
   },
 }));
 
+/**
+ * Creates the transports of two tabs, each delivering its messages to the other
+ */
+const createLinkedTransports = (): [SyncTransport, SyncTransport] => {
+  const callbacks: ((message: SyncMessage) => void)[] = [];
+  const createTransport = (index: number): SyncTransport => ({
+    post: (message) => callbacks[1 - index]?.(message),
+    subscribe: (callback) => {
+      callbacks[index] = callback;
+      return vi.fn();
+    },
+    close: vi.fn(),
+  });
+
+  return [createTransport(0), createTransport(1)];
+};
+
 describe("ActivityManager", () => {
   beforeEach(() => {
     localStorage.clear();
     sessionStorage.clear();
     vi.useFakeTimers();
     // Ensure TabManager.registerCurrentTab does not interfere with tests
-    vi.spyOn(TabManager, "registerCurrentTab").mockImplementation(() => {});
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      () => {}
+    );
   });
 
   afterEach(() => {
@@ -87,4 +108,898 @@ describe("ActivityManager", () => {
     expect(entry2).toBeDefined();
     expect(entry2?.timerId).toBeDefined();
   });
+
+  it("persists activity in the configured storage", () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      storage: sessionStorage,
+    });
+
+    activity.markActive();
+
+    expect(sessionStorage.getItem("last_active")).toBe(
+      JSON.stringify({ version: 1, value: now })
+    );
+    expect(localStorage.getItem("last_active")).toBeNull();
+    expect(activity.getLastActivityTime()).toBe(now);
+  });
+
+  it("ignores storage events from other storage areas", () => {
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      storage: sessionStorage,
+      syncTransport: "storage",
+    });
+
+    const listener = vi.fn();
+    activity.subscribe(listener);
+    listener.mockClear();
+
+    vi.advanceTimersByTime(1000);
+    const timestamp = Date.now();
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "last_active",
+        newValue: String(timestamp),
+        storageArea: localStorage,
+      })
+    );
+    expect(listener).not.toHaveBeenCalled();
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "last_active",
+        newValue: String(timestamp),
+        storageArea: sessionStorage,
+      })
+    );
+    expect(listener).toHaveBeenCalledWith(
+      timestamp,
+      expect.objectContaining({ source: "remote" })
+    );
+
+    activity.destroy();
+  });
+
+  it("posts activity to and receives activity from the sync transport", () => {
+    let onMessage: ((message: SyncMessage) => void) | undefined;
+    const transport: SyncTransport = {
+      post: vi.fn(),
+      subscribe: vi.fn((callback) => {
+        onMessage = callback;
+        return vi.fn();
+      }),
+      close: vi.fn(),
+    };
+
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      syncTransport: transport,
+    });
+    expect(transport.post).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "tab-joined" })
+    );
+
+    activity.markActive(new Date(2000));
+    expect(transport.post).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "activity", timestamp: 2000 })
+    );
+
+    const listener = vi.fn();
+    activity.subscribe(listener);
+    onMessage?.({ type: "activity", tabId: "other", timestamp: 3000 });
+    expect(listener).toHaveBeenLastCalledWith(
+      3000,
+      expect.objectContaining({ source: "remote", tabId: "other" })
+    );
+
+    activity.destroy();
+    expect(transport.close).toHaveBeenCalled();
+  });
+
+  it("ignores activity from other tabs older than the last activity", () => {
+    let onMessage: ((message: SyncMessage) => void) | undefined;
+    const transport: SyncTransport = {
+      post: vi.fn(),
+      subscribe: vi.fn((callback) => {
+        onMessage = callback;
+        return vi.fn();
+      }),
+      close: vi.fn(),
+    };
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      storage: new SharedMemoryStorage().createArea(),
+      syncTransport: transport,
+    });
+    const listener = vi.fn();
+    activity.subscribe(listener);
+    const inactive = vi.fn();
+    activity.subscribeToInactivity(5000, inactive);
+
+    vi.advanceTimersByTime(1000);
+    activity.markActive();
+    listener.mockClear();
+    onMessage?.({
+      type: "activity",
+      tabId: "other",
+      timestamp: Date.now() - 1000,
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(4999);
+    expect(inactive).not.toHaveBeenCalled();
+
+    activity.destroy();
+  });
+
+  describe("visibility", () => {
+    const setVisibility = (state: DocumentVisibilityState) => {
+      vi.spyOn(document, "visibilityState", "get").mockReturnValue(state);
+      document.dispatchEvent(new Event("visibilitychange"));
+    };
+
+    it("treats the user as inactive while hidden with inactiveWhenHidden", () => {
+      const activity = new ActivityManager({
+        syncAcrossTabs: false,
+        visibility: { inactiveWhenHidden: true },
+      });
+      activity.markActive();
+
+      const cb = vi.fn();
+      activity.subscribeToInactivity(60000, cb);
+      expect(activity.isInactiveFor(60000)).toBe(false);
+
+      setVisibility("hidden");
+      vi.runOnlyPendingTimers();
+
+      expect(activity.isInactiveFor(60000)).toBe(true);
+      expect(cb).toHaveBeenCalledTimes(1);
+      expect(activity.getVisibilityState().visibilityState).toBe("hidden");
+
+      activity.destroy();
+    });
+
+    it("marks activity when the tab becomes visible with markActiveOnVisible", () => {
+      const activity = new ActivityManager({
+        syncAcrossTabs: false,
+        visibility: { markActiveOnVisible: true },
+      });
+      const markActiveSpy = vi.spyOn(activity, "markActive");
+
+      setVisibility("hidden");
+      expect(markActiveSpy).not.toHaveBeenCalled();
+
+      setVisibility("visible");
+      expect(markActiveSpy).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("notifies visibility subscribers", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: false });
+      const listener = vi.fn();
+      activity.subscribeToVisibility(listener);
+
+      setVisibility("hidden");
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ visibilityState: "hidden" }),
+        expect.objectContaining({ visibilityState: "visible" })
+      );
+
+      activity.destroy();
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("stops inactivity timers while paused", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: false });
+      activity.markActive();
+
+      const cb = vi.fn();
+      activity.subscribeToInactivity(2000, cb);
+
+      vi.advanceTimersByTime(1000);
+      activity.pause();
+      expect(activity.isPaused()).toBe(true);
+
+      vi.advanceTimersByTime(10000);
+      expect(cb).not.toHaveBeenCalled();
+      expect(activity.isInactiveFor(2000)).toBe(false);
+
+      activity.destroy();
+    });
+
+    it("continues the idle clock from where it was paused on resume", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: false });
+      activity.markActive();
+
+      const cb = vi.fn();
+      activity.subscribeToInactivity(2000, cb);
+
+      vi.advanceTimersByTime(1500);
+      activity.pause();
+      vi.advanceTimersByTime(60000);
+      activity.resume();
+
+      expect(activity.isPaused()).toBe(false);
+      expect(activity.getInactiveDuration()).toBe(1500);
+
+      vi.advanceTimersByTime(499);
+      expect(cb).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("shifts the last activity on resume without reporting activity", () => {
+      const [firstTransport, secondTransport] = createLinkedTransports();
+      const parent = new ActivityManager({ syncAcrossTabs: false });
+      const first = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: firstTransport,
+        parent,
+        scope: "editor",
+      });
+      const second = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: secondTransport,
+        scope: "editor",
+      });
+      first.markActive(undefined, { label: "typing" });
+      const listener = vi.fn();
+      const secondListener = vi.fn();
+      first.subscribe(listener);
+      second.subscribe(secondListener);
+      listener.mockClear();
+      secondListener.mockClear();
+
+      vi.advanceTimersByTime(1500);
+      first.pause();
+      vi.advanceTimersByTime(60000);
+      const parentLastActive = parent.getLastActivityTime();
+      first.resume();
+
+      expect(first.getLastActivityTime()).toBe(Date.now() - 1500);
+      expect(first.getLastActivityMetadata()?.label).toBe("typing");
+      expect(second.getLastActivityTime()).toBe(Date.now() - 1500);
+      expect(listener).not.toHaveBeenCalled();
+      expect(secondListener).not.toHaveBeenCalled();
+      expect(parent.getLastActivityTime()).toBe(parentLastActive);
+
+      first.destroy();
+      second.destroy();
+      parent.destroy();
+    });
+
+    it("does not report the shifted time of shared storage as activity", () => {
+      const first = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: "storage",
+      });
+      const second = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: "storage",
+      });
+      const listener = vi.fn();
+      second.subscribe(listener);
+      const inactive = vi.fn();
+      second.subscribeToInactivity(120000, inactive);
+      listener.mockClear();
+
+      vi.advanceTimersByTime(1000);
+      first.pause();
+      vi.advanceTimersByTime(60000);
+      first.resume();
+      // The storage event of the shifted time is not delivered to the writing tab
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "last_active",
+          newValue: localStorage.getItem("last_active"),
+          storageArea: localStorage,
+        })
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(118999);
+      expect(inactive).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(inactive).toHaveBeenCalledTimes(1);
+
+      first.destroy();
+      second.destroy();
+    });
+
+    it("notifies pause listeners", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: false });
+      const listener = vi.fn();
+      activity.subscribeToPause(listener);
+
+      activity.pause();
+      activity.pause();
+      activity.resume();
+
+      expect(listener.mock.calls).toEqual([[true], [false]]);
+
+      activity.destroy();
+    });
+
+    it("applies pause state received from tabs with their own storage", () => {
+      const [firstTransport, secondTransport] = createLinkedTransports();
+      const first = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: firstTransport,
+      });
+      const second = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: secondTransport,
+      });
+      second.markActive();
+      const cb = vi.fn();
+      second.subscribeToInactivity(2000, cb);
+
+      first.pause();
+
+      vi.advanceTimersByTime(5000);
+      expect(cb).not.toHaveBeenCalled();
+      expect(second.isPaused()).toBe(true);
+
+      first.resume();
+
+      expect(second.isPaused()).toBe(false);
+      vi.advanceTimersByTime(2000);
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      first.destroy();
+      second.destroy();
+    });
+  });
+
+  describe("session end", () => {
+    const createTransport = () => {
+      const transport = {
+        onMessage: undefined as ((message: SyncMessage) => void) | undefined,
+        post: vi.fn(),
+        subscribe: vi.fn((callback: (message: SyncMessage) => void) => {
+          transport.onMessage = callback;
+          return vi.fn();
+        }),
+        close: vi.fn(),
+      };
+      return transport;
+    };
+
+    it("broadcasts the session end and notifies subscribers", () => {
+      const transport = createTransport();
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: transport,
+      });
+      const listener = vi.fn();
+      activity.subscribeToSessionEnd(listener);
+
+      activity.endSession("logout");
+
+      expect(transport.post).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "logout", reason: "logout" })
+      );
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "logout", endedAt: Date.now() })
+      );
+      expect(activity.isSessionEnded()).toBe(true);
+
+      activity.destroy();
+    });
+
+    it("ends the session when another tab logs out", () => {
+      const transport = createTransport();
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: transport,
+      });
+      const listener = vi.fn();
+      activity.subscribeToSessionEnd(listener);
+
+      transport.onMessage?.({ type: "logout", tabId: "other", reason: "idle" });
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "idle", tabId: "other" })
+      );
+      expect(activity.isSessionEnded()).toBe(true);
+
+      activity.destroy();
+    });
+
+    it("stops reporting activity until the session is reset", () => {
+      const transport = createTransport();
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: transport,
+      });
+      const lastActive = activity.getLastActivityTime();
+      const inactivityCallback = vi.fn();
+      activity.subscribeToInactivity(2000, inactivityCallback);
+
+      activity.endSession();
+      vi.advanceTimersByTime(1000);
+      activity.markActive();
+      transport.onMessage?.({ type: "activity", timestamp: Date.now() });
+
+      expect(activity.getLastActivityTime()).toBe(lastActive);
+      vi.advanceTimersByTime(5000);
+      expect(inactivityCallback).not.toHaveBeenCalled();
+
+      activity.resetSession();
+      expect(activity.isSessionEnded()).toBe(false);
+      expect(activity.getLastActivityTime()).toBe(Date.now());
+
+      vi.advanceTimersByTime(2000);
+      expect(inactivityCallback).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+  });
+
+  describe("activity metadata", () => {
+    it("stores and reports the source and label of local activity", () => {
+      vi.spyOn(TabManager.prototype, "tabId", "get").mockReturnValue("tab1");
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      const listener = vi.fn();
+      activity.subscribe(listener);
+
+      activity.markActive(undefined, { source: "keyboard", label: "editor" });
+
+      const metadata = { source: "keyboard", tabId: "tab1", label: "editor" };
+      expect(listener).toHaveBeenLastCalledWith(Date.now(), metadata);
+      expect(activity.getLastActivityMetadata()).toEqual(metadata);
+
+      activity.destroy();
+    });
+
+    it("defaults to programmatic activity", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+
+      activity.markActive();
+
+      expect(activity.getLastActivityMetadata()?.source).toBe("programmatic");
+
+      activity.destroy();
+    });
+
+    it("syncs metadata and reports activity of other tabs as remote", () => {
+      const transport = {
+        post: vi.fn(),
+        subscribe: vi.fn(() => vi.fn()),
+        close: vi.fn(),
+      };
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: transport,
+      });
+
+      activity.markActive(new Date(2000), { label: "save" });
+      expect(transport.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "activity",
+          source: "programmatic",
+          label: "save",
+        })
+      );
+
+      // Another tab marks activity in the shared storage
+      localStorage.setItem(
+        "last_active_metadata",
+        JSON.stringify({ source: "pointer", tabId: "other", timestamp: 3000 })
+      );
+      expect(activity.getLastActivityMetadata()).toEqual({
+        source: "remote",
+        tabId: "other",
+        label: undefined,
+      });
+
+      activity.destroy();
+    });
+
+    it("reads metadata of storage events from the storage", () => {
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: "storage",
+      });
+      const listener = vi.fn();
+      activity.subscribe(listener);
+
+      vi.advanceTimersByTime(5000);
+      const timestamp = Date.now();
+
+      localStorage.setItem(
+        "last_active_metadata",
+        JSON.stringify({
+          source: "keyboard",
+          tabId: "other",
+          label: "search",
+          timestamp,
+        })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "last_active",
+          newValue: String(timestamp),
+          storageArea: localStorage,
+        })
+      );
+
+      expect(listener).toHaveBeenLastCalledWith(timestamp, {
+        source: "remote",
+        tabId: "other",
+        label: "search",
+      });
+
+      activity.destroy();
+    });
+  });
+
+  describe("clock", () => {
+    it("measures inactivity independently of small wall clock changes", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      activity.markActive();
+
+      vi.advanceTimersByTime(1000);
+      vi.setSystemTime(Date.now() + 5000);
+
+      expect(activity.getInactiveDuration()).toBe(1000);
+
+      activity.destroy();
+    });
+
+    it("re-evaluates inactivity timers when the wall clock jumps", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      const cb = vi.fn();
+      activity.subscribeToInactivity(60_000, cb);
+      activity.markActive();
+
+      // The device resumes from suspend ten minutes later
+      vi.setSystemTime(Date.now() + 10 * 60_000);
+      vi.advanceTimersByTime(6000);
+
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("replaces a stored last activity time in the future", () => {
+      const now = Date.now();
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+
+      localStorage.setItem("last_active", String(now + 60 * 60_000));
+
+      expect(activity.getLastActivityTime()).toBe(now);
+      expect(localStorage.getItem("last_active")).toBe(
+        JSON.stringify({ version: 1, value: now })
+      );
+
+      activity.destroy();
+    });
+
+    it("ignores activity in the future from other tabs", () => {
+      let onMessage: ((message: SyncMessage) => void) | undefined;
+      const transport: SyncTransport = {
+        post: vi.fn(),
+        subscribe: vi.fn((callback) => {
+          onMessage = callback;
+          return vi.fn();
+        }),
+        close: vi.fn(),
+      };
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        syncTransport: transport,
+      });
+      const lastActive = activity.getLastActivityTime();
+      const listener = vi.fn();
+      activity.subscribe(listener);
+      listener.mockClear();
+
+      onMessage?.({
+        type: "activity",
+        tabId: "other",
+        timestamp: Date.now() + 60 * 60_000,
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(activity.getLastActivityTime()).toBe(lastActive);
+
+      activity.destroy();
+    });
+  });
+
+  describe("absolute timeout", () => {
+    const createActivityManager = () =>
+      new ActivityManager({
+        syncAcrossTabs: true,
+        absoluteTimeoutInMilliseconds: 60_000,
+      });
+
+    it("persists the session start next to the last activity", () => {
+      const now = Date.now();
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        storagePrefix: "app",
+      });
+
+      expect(localStorage.getItem("app_session_started")).toBe(
+        JSON.stringify({ version: 1, value: now })
+      );
+      expect(activity.getSessionStartTime()).toBe(now);
+      expect(activity.getRemainingSessionTime()).toBeUndefined();
+
+      activity.destroy();
+    });
+
+    it("expires the session however active the user is", () => {
+      const activity = createActivityManager();
+      const onExpiry = vi.fn();
+      const onSessionEnd = vi.fn();
+      activity.subscribeToSessionExpiry(onExpiry);
+      activity.subscribeToSessionEnd(onSessionEnd);
+
+      for (let i = 0; i < 5; i++) {
+        vi.advanceTimersByTime(10_000);
+        activity.markActive();
+      }
+      expect(activity.getRemainingSessionTime()).toBe(10_000);
+      expect(onExpiry).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(10_000);
+      expect(activity.isSessionEnded()).toBe(true);
+      expect(onExpiry).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "expired" })
+      );
+      expect(onSessionEnd).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("does not notify expiry subscribers of other session ends", () => {
+      const activity = createActivityManager();
+      const onExpiry = vi.fn();
+      activity.subscribeToSessionExpiry(onExpiry);
+
+      activity.endSession("logout");
+
+      expect(onExpiry).not.toHaveBeenCalled();
+
+      activity.destroy();
+    });
+
+    it("starts a new session lifetime on reset", () => {
+      const activity = createActivityManager();
+
+      vi.advanceTimersByTime(60_000);
+      expect(activity.isSessionEnded()).toBe(true);
+
+      activity.resetSession();
+      expect(activity.getSessionStartTime()).toBe(Date.now());
+      expect(activity.getRemainingSessionTime()).toBe(60_000);
+
+      vi.advanceTimersByTime(59_999);
+      expect(activity.isSessionEnded()).toBe(false);
+
+      activity.destroy();
+    });
+  });
+
+  describe("storage cleanup", () => {
+    const storeTabs = (tabIds: string[], prefix = "app_") =>
+      localStorage.setItem(
+        `${prefix}inactify_active_tabs`,
+        JSON.stringify(
+          Object.fromEntries(tabIds.map((tabId) => [tabId, Date.now()]))
+        )
+      );
+    const openTab = (tabId: string, storagePrefix = "app") =>
+      new ActivityManager({
+        syncAcrossTabs: false,
+        storagePrefix,
+        tabManager: new TabManager({ tabId, storagePrefix }),
+      });
+
+    it("removes the keys of all tabs under its prefix", () => {
+      storeTabs(["other"]);
+      openTab("other").destroy();
+      const activity = openTab("current");
+      localStorage.setItem("app_editor_last_active", "1000");
+      localStorage.setItem("last_active", "1000");
+      localStorage.setItem("unrelated", "value");
+      activity.pause();
+
+      activity.clearStorage();
+
+      expect(Object.keys(localStorage).sort()).toEqual([
+        "app_editor_last_active",
+        // The other tab is still open
+        "app_inactify_active_tabs",
+        "app_inactify_tab_ids",
+        // Written again, the tab keeps measuring inactivity
+        "app_last_active_current",
+        "app_session_started_current",
+        "last_active",
+        "unrelated",
+      ]);
+      expect(localStorage.getItem("app_inactify_tab_ids")).toContain("current");
+      expect(localStorage.getItem("app_inactify_tab_ids")).not.toContain(
+        "other"
+      );
+
+      activity.destroy();
+    });
+
+    it("keeps measuring inactivity and the session after clearing", () => {
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        absoluteTimeoutInMilliseconds: 60_000,
+      });
+      const onIdle = vi.fn();
+      const onExpiry = vi.fn();
+      activity.subscribeToInactivity(10_000, onIdle);
+      activity.subscribeToSessionExpiry(onExpiry);
+      vi.advanceTimersByTime(5000);
+
+      activity.clearStorage();
+      vi.advanceTimersByTime(30_000);
+
+      expect(activity.isInactiveFor(10_000)).toBe(true);
+      expect(activity.getInactiveDuration()).toBe(30_000);
+      expect(onIdle).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(120_000);
+
+      expect(activity.isSessionEnded()).toBe(true);
+      expect(activity.getRemainingSessionTime()).toBe(0);
+      expect(onExpiry).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("tells listeners and other tabs that the state was cleared", () => {
+      const [firstTransport, secondTransport] = createLinkedTransports();
+      const first = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: firstTransport,
+      });
+      const second = new ActivityManager({
+        syncAcrossTabs: true,
+        storage: new SharedMemoryStorage().createArea(),
+        syncTransport: secondTransport,
+      });
+      const onPause = vi.fn();
+      const listener = vi.fn();
+      second.subscribeToPause(onPause);
+      first.pause();
+      first.endSession("logout");
+      second.subscribe(listener);
+      listener.mockClear();
+
+      first.clearStorage();
+
+      expect(first.isPaused()).toBe(false);
+      expect(second.isPaused()).toBe(false);
+      expect(onPause).toHaveBeenLastCalledWith(false);
+      expect(second.isSessionEnded()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(
+        second.getLastActivityTime(),
+        undefined
+      );
+
+      first.destroy();
+      second.destroy();
+    });
+
+    it("starts over on reset", () => {
+      const activity = new ActivityManager({
+        syncAcrossTabs: true,
+        storagePrefix: "app",
+      });
+      const onPause = vi.fn();
+      const listener = vi.fn();
+      activity.subscribeToPause(onPause);
+      activity.pause();
+      activity.endSession("logout");
+      activity.subscribe(listener);
+      listener.mockClear();
+      vi.advanceTimersByTime(5000);
+
+      activity.reset();
+
+      expect(activity.isPaused()).toBe(false);
+      expect(onPause).toHaveBeenLastCalledWith(false);
+      expect(activity.isSessionEnded()).toBe(false);
+      expect(activity.getSessionStartTime()).toBe(Date.now());
+      expect(listener).toHaveBeenCalledWith(Date.now(), expect.anything());
+
+      activity.destroy();
+    });
+
+    it("removes per-tab keys of tabs that are no longer open", () => {
+      storeTabs(["open", "closed"]);
+      openTab("open").destroy();
+      openTab("closed").pause();
+      localStorage.setItem("app_last_active_other", "1000");
+      storeTabs(["open"]);
+
+      const activity = openTab("current");
+
+      expect(localStorage.getItem("app_last_active_open")).not.toBeNull();
+      expect(localStorage.getItem("app_last_active_closed")).toBeNull();
+      expect(localStorage.getItem("app_paused_closed")).toBeNull();
+      expect(localStorage.getItem("app_last_active_other")).toBe("1000");
+      expect(localStorage.getItem("app_last_active_current")).not.toBeNull();
+
+      activity.destroy();
+    });
+
+    it("collects per-tab keys written before the tabs were recorded", () => {
+      // Written by an older version, which did not record the tabs
+      localStorage.setItem("app_last_active_legacy", "1000");
+      localStorage.setItem("app_paused_legacy", "1000");
+      localStorage.setItem("app_last_active_gone", "1000");
+      storeTabs(["legacy", "current"]);
+
+      const activity = openTab("current");
+      expect(localStorage.getItem("app_inactify_tab_ids")).toContain("legacy");
+      expect(localStorage.getItem("app_inactify_tab_ids")).not.toContain(
+        "gone"
+      );
+
+      storeTabs(["current", "next"]);
+      openTab("next").destroy();
+      expect(localStorage.getItem("app_last_active_legacy")).toBeNull();
+      expect(localStorage.getItem("app_paused_legacy")).toBeNull();
+      // Closed before the upgrade, it cannot be told apart from other keys
+      expect(localStorage.getItem("app_last_active_gone")).toBe("1000");
+
+      localStorage.setItem("app_last_active_late", "1000");
+      storeTabs(["current", "late"]);
+      activity.clearStorage();
+      expect(localStorage.getItem("app_last_active_late")).toBeNull();
+
+      activity.destroy();
+    });
+
+    it("keeps keys of the host application without a storage prefix", () => {
+      const appKeys = {
+        paused: "true",
+        paused_video: "true",
+        keep_alive_ping: "1000",
+        last_active_page: "/home",
+        session_started_at: "1000",
+      };
+      for (const [key, value] of Object.entries(appKeys)) {
+        localStorage.setItem(key, value);
+      }
+      storeTabs(["current"], "");
+
+      const shared = new ActivityManager({ syncAcrossTabs: true });
+      const activity = openTab("current", "");
+      activity.clearStorage();
+
+      for (const [key, value] of Object.entries(appKeys)) {
+        expect(localStorage.getItem(key)).toBe(value);
+      }
+
+      shared.destroy();
+      activity.destroy();
+    });
+  });
 });
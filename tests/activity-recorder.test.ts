@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ActivityManager } from "../src/managers/activity-manager";
+import { TabManager } from "../src/managers/tab-manager";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const HISTORY_KEY = "activity_history";
+
+describe("ActivityRecorder", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    vi.useFakeTimers();
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+    vi.spyOn(TabManager.prototype, "tabId", "get").mockReturnValue("tab1");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createActivityManager = () =>
+    new ActivityManager({
+      syncAcrossTabs: true,
+      syncTransport: "storage",
+      activityRecording: {
+        idleAfterInMilliseconds: 1000,
+        sampleIntervalInMilliseconds: 500,
+      },
+    });
+
+  it("records active and idle transitions with sampled activity", () => {
+    const activity = createActivityManager();
+    const start = Date.now();
+
+    activity.markActive();
+    vi.advanceTimersByTime(100);
+    activity.markActive();
+    vi.advanceTimersByTime(500);
+    activity.markActive();
+    vi.advanceTimersByTime(1000);
+
+    expect(activity.getActivityRecorder()?.getEntries()).toEqual([
+      { type: "active", timestamp: start, tabId: "tab1" },
+      { type: "activity", timestamp: start + 600, tabId: "tab1" },
+      { type: "idle", timestamp: start + 600, tabId: "tab1" },
+    ]);
+
+    activity.destroy();
+  });
+
+  it("computes usage statistics", () => {
+    const activity = createActivityManager();
+    const start = Date.now();
+
+    activity.markActive();
+    vi.advanceTimersByTime(600);
+    activity.markActive();
+    vi.advanceTimersByTime(3000);
+    activity.markActive();
+    vi.advanceTimersByTime(400);
+    activity.markActive();
+
+    expect(activity.getActivityRecorder()?.getStats()).toEqual({
+      totalActiveTimeInMilliseconds: 600 + 400,
+      idlePeriodCount: 1,
+      longestIdlePeriodInMilliseconds: 3000,
+      tabs: {
+        tab1: {
+          activityCount: 3,
+          firstActivityAt: start,
+          lastActivityAt: start + 3600,
+        },
+      },
+    });
+
+    activity.destroy();
+  });
+
+  it("does not record an idle period twice when the history is shared", () => {
+    const activity = createActivityManager();
+    activity.markActive();
+
+    // Another tab already recorded the idle period in the shared history
+    const entries = activity.getActivityRecorder()?.getEntries() ?? [];
+    localStorage.setItem(
+      HISTORY_KEY,
+      JSON.stringify([
+        ...entries,
+        { type: "idle", timestamp: Date.now(), tabId: "tab2" },
+      ])
+    );
+    vi.advanceTimersByTime(1000);
+
+    expect(
+      activity
+        .getActivityRecorder()
+        ?.getEntries()
+        .filter((entry) => entry.type === "idle")
+    ).toHaveLength(1);
+
+    activity.destroy();
+  });
+
+  it("keeps at most maxEntries entries", () => {
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      syncTransport: "storage",
+      activityRecording: { maxEntries: 2, sampleIntervalInMilliseconds: 0 },
+    });
+
+    activity.markActive();
+    vi.advanceTimersByTime(10);
+    activity.markActive();
+    vi.advanceTimersByTime(10);
+    activity.markActive();
+
+    const entries = activity.getActivityRecorder()?.getEntries() ?? [];
+    expect(entries.map((entry) => entry.type)).toEqual([
+      "activity",
+      "activity",
+    ]);
+
+    activity.destroy();
+  });
+
+  it("exports the history and statistics as JSON", () => {
+    const activity = createActivityManager();
+    activity.markActive();
+
+    const exported = JSON.parse(
+      activity.getActivityRecorder()?.exportJSON() ?? "{}"
+    );
+
+    expect(exported.exportedAt).toBe(Date.now());
+    expect(exported.entries).toHaveLength(1);
+    expect(exported.stats.idlePeriodCount).toBe(0);
+
+    activity.getActivityRecorder()?.clear();
+    expect(activity.getActivityRecorder()?.getEntries()).toEqual([]);
+
+    activity.destroy();
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { IdleClockHub } from "../src/idle-clock/idle-clock-hub";
+import { ActivityManager } from "../src/managers/activity-manager";
+import { TabManager } from "../src/managers/tab-manager";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+/**
+ * One end of an in-memory message channel delivering messages synchronously
+ */
+class FakePort extends EventTarget {
+  other: FakePort | undefined;
+
+  postMessage(data: unknown): void {
+    this.other?.dispatchEvent(new MessageEvent("message", { data }));
+  }
+
+  start(): void {
+    // Messages are delivered right away
+  }
+
+  close(): void {
+    this.other = undefined;
+  }
+}
+
+/**
+ * Creates a SharedWorker whose port is connected to the hub
+ */
+const connectSharedWorker = (hub: IdleClockHub): SharedWorker => {
+  const port = new FakePort();
+  const workerPort = new FakePort();
+  port.other = workerPort;
+  workerPort.other = port;
+  hub.connect(workerPort);
+
+  return Object.assign(new EventTarget(), { port }) as unknown as SharedWorker;
+};
+
+describe("IdleClock", () => {
+  let hub: IdleClockHub;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    vi.useFakeTimers();
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+    hub = new IdleClockHub();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createActivityManager = () =>
+    new ActivityManager({
+      syncAcrossTabs: true,
+      idleClock: { createWorker: () => connectSharedWorker(hub) },
+    });
+
+  it("fires inactivity callbacks when the worker reports the timeout", () => {
+    const activity = createActivityManager();
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+    activity.markActive();
+
+    vi.advanceTimersByTime(59_999);
+    expect(cb).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+  });
+
+  it("measures the timeout from backdated activity", () => {
+    const activity = createActivityManager();
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+    activity.markActive();
+
+    vi.advanceTimersByTime(30_000);
+    activity.markActive(new Date(Date.now() - 50_000));
+
+    vi.advanceTimersByTime(9999);
+    expect(cb).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+  });
+
+  it("shares one clock between all connected tabs", () => {
+    const first = createActivityManager();
+    const second = createActivityManager();
+    const firstCallback = vi.fn();
+    const secondCallback = vi.fn();
+    first.subscribeToInactivity(60_000, firstCallback);
+    second.subscribeToInactivity(60_000, secondCallback);
+
+    vi.advanceTimersByTime(30_000);
+    // Activity in the first tab also postpones the timeout of the second
+    first.markActive();
+    vi.advanceTimersByTime(59_999);
+    expect(secondCallback).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(firstCallback).toHaveBeenCalledTimes(1);
+    expect(secondCallback).toHaveBeenCalledTimes(1);
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it("stops reporting timeouts after the manager is destroyed", () => {
+    const activity = createActivityManager();
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+    activity.destroy();
+
+    vi.advanceTimersByTime(60_000);
+    expect(cb).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("falls back to the timers of the tab when the worker cannot be created", () => {
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      idleClock: {
+        createWorker: () => {
+          throw new Error("SharedWorker is not supported");
+        },
+      },
+    });
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+
+    vi.advanceTimersByTime(60_000);
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+  });
+
+  it("falls back to the timers of the tab when the worker fails", () => {
+    let worker: SharedWorker | undefined;
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      idleClock: {
+        // The hub never answers, like a worker whose script failed to load
+        createWorker: () => {
+          worker = connectSharedWorker(new IdleClockHub());
+          vi.spyOn(worker.port, "postMessage").mockImplementation(vi.fn());
+          return worker;
+        },
+      },
+    });
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+    activity.markActive();
+    vi.advanceTimersByTime(30_000);
+
+    worker?.dispatchEvent(new Event("error"));
+    vi.advanceTimersByTime(29_999);
+    expect(cb).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+  });
+
+  it("fires overdue timeouts awaited from the worker on wake up", () => {
+    const activity = new ActivityManager({
+      syncAcrossTabs: true,
+      idleClock: {
+        createWorker: () => {
+          const worker = connectSharedWorker(new IdleClockHub());
+          vi.spyOn(worker.port, "postMessage").mockImplementation(vi.fn());
+          return worker;
+        },
+      },
+    });
+    const cb = vi.fn();
+    activity.subscribeToInactivity(60_000, cb);
+    activity.markActive();
+
+    vi.advanceTimersByTime(60_000);
+    expect(cb).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event("focus"));
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    activity.destroy();
+  });
+});
@@ -3,7 +3,7 @@
 import { render, screen, renderHook, act } from "@testing-library/react";
 import { expect, test, describe, beforeEach, vi } from "vitest";
 import { InactifyProvider, InactifyContext } from "../src";
-import { useContext } from "react";
+import { useContext, type ContextType } from "react";
 
 describe("InactifyProvider", () => {
   beforeEach(() => {
@@ -56,6 +56,40 @@ describe("InactifyProvider", () => {
     expect(result.current?.lastActive()).toBe(mockTime.getTime());
   });
 
+  test("markActive works as a click handler", () => {
+    const { result } = renderHook(() => useContext(InactifyContext), {
+      wrapper: InactifyProvider,
+    });
+    render(<button onClick={result.current?.markActive}>Mark</button>);
+
+    act(() => {
+      screen.getByText("Mark").click();
+      // Arguments of handlers are ignored, whatever they look like
+      (result.current?.markActive as (event: unknown) => void)({
+        source: "keyboard",
+        label: "event",
+      });
+    });
+
+    expect(result.current?.lastActivityMetadata()).toEqual(
+      expect.objectContaining({ source: "programmatic", label: undefined })
+    );
+  });
+
+  test("markActiveWith passes the source and label", () => {
+    const { result } = renderHook(() => useContext(InactifyContext), {
+      wrapper: InactifyProvider,
+    });
+
+    act(() => {
+      result.current?.markActiveWith({ label: "autosave" });
+    });
+
+    expect(result.current?.lastActivityMetadata()).toEqual(
+      expect.objectContaining({ source: "programmatic", label: "autosave" })
+    );
+  });
+
   test("updateLastActive sets specific timestamp", () => {
     const { result } = renderHook(() => useContext(InactifyContext), {
       wrapper: InactifyProvider,
@@ -69,4 +103,78 @@ describe("InactifyProvider", () => {
 
     expect(result.current?.lastActive()).toBe(mockDate.getTime());
   });
+
+  test("calls the latest keepalive callback", async () => {
+    let context: ContextType<typeof InactifyContext>;
+    const Child = () => {
+      context = useContext(InactifyContext);
+      return null;
+    };
+    const first = vi.fn().mockResolvedValue(undefined);
+    const second = vi.fn().mockResolvedValue(undefined);
+    const { rerender, unmount } = render(
+      <InactifyProvider defaultOptions={{ keepAlive: { onKeepAlive: first } }}>
+        <Child />
+      </InactifyProvider>
+    );
+    rerender(
+      <InactifyProvider defaultOptions={{ keepAlive: { onKeepAlive: second } }}>
+        <Child />
+      </InactifyProvider>
+    );
+
+    act(() => {
+      context?.markActive();
+    });
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unmount();
+    localStorage.clear();
+  });
+
+  test("restarts tracking when the storage changes", () => {
+    let context: ContextType<typeof InactifyContext>;
+    const Child = () => {
+      context = useContext(InactifyContext);
+      return null;
+    };
+    const { rerender, unmount } = render(
+      <InactifyProvider defaultOptions={{ storage: localStorage }}>
+        <Child />
+      </InactifyProvider>
+    );
+    rerender(
+      <InactifyProvider defaultOptions={{ storage: sessionStorage }}>
+        <Child />
+      </InactifyProvider>
+    );
+    sessionStorage.removeItem("last_active");
+
+    act(() => {
+      context?.markActive();
+    });
+
+    expect(sessionStorage.getItem("last_active")).not.toBeNull();
+
+    unmount();
+  });
+
+  test("exposes the visibility state of the tab", () => {
+    const { result } = renderHook(() => useContext(InactifyContext), {
+      wrapper: InactifyProvider,
+    });
+
+    expect(result.current?.visibilityState()).toBe("visible");
+
+    act(() => {
+      vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+      document.dispatchEvent(new Event("visibilitychange"));
+    });
+
+    expect(result.current?.visibilityState()).toBe("hidden");
+    vi.restoreAllMocks();
+  });
 });
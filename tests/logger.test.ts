@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  ConsoleLogger,
+  Logger,
+  createLogger,
+  type Logger as LoggerInterface,
+} from "../src/debug/logger";
+import { ActivityManager } from "../src/managers/activity-manager";
+import { TabManager } from "../src/managers/tab-manager";
+
+const createMockLogger = (): LoggerInterface => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("createLogger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("only forwards messages of at least the minimum level", () => {
+    const target = createMockLogger();
+    const logger = createLogger("warning", target);
+
+    logger.info("info");
+    logger.warning("warning", { key: "value" });
+    logger.error("error", new Error("failed"));
+
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warning).toHaveBeenCalledWith("warning", { key: "value" });
+    expect(target.error).toHaveBeenCalledWith(
+      "error",
+      expect.any(Error),
+      undefined
+    );
+  });
+
+  it("forwards nothing when silent", () => {
+    const target = createMockLogger();
+    const logger = createLogger("silent", target);
+
+    logger.info("info");
+    logger.warning("warning");
+    logger.error("error");
+
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warning).not.toHaveBeenCalled();
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it("logs to the console by default", () => {
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(vi.fn());
+
+    createLogger("info").info("message");
+
+    expect(infoSpy).toHaveBeenCalledWith(expect.any(String), "message");
+  });
+
+  it("keeps the default logger silent", () => {
+    const errorSpy = vi.spyOn(ConsoleLogger.prototype, "error");
+
+    Logger.error("message");
+
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("ActivityManager logger", () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("writes diagnostics to the injected logger", () => {
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+    const logger = createMockLogger();
+    const activity = new ActivityManager({ syncAcrossTabs: false, logger });
+
+    activity.endSession("logout");
+
+    expect(logger.info).toHaveBeenCalledWith("Session ended", {
+      reason: "logout",
+      tabId: expect.any(String),
+    });
+
+    activity.destroy();
+  });
+
+  it("writes storage diagnostics to the injected logger", () => {
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+    localStorage.setItem("last_active", "not a timestamp");
+    const logger = createMockLogger();
+    const activity = new ActivityManager({ syncAcrossTabs: true, logger });
+
+    activity.getLastActivityTime();
+
+    expect(logger.warning).toHaveBeenCalledWith(
+      "Removing corrupt storage value",
+      { key: "last_active" }
+    );
+
+    activity.destroy();
+  });
+});
@@ -0,0 +1,79 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { InactifyProvider, useInactify } from "../src";
+
+const createWrapper =
+  (rollUpToParent: boolean) =>
+  ({ children }: { children: ReactNode }) => (
+    <InactifyProvider scope="app" defaultOptions={{ syncTransport: "storage" }}>
+      <InactifyProvider
+        scope="editor"
+        defaultOptions={{ syncActivityAcrossTabs: false, rollUpToParent }}
+      >
+        {children}
+      </InactifyProvider>
+    </InactifyProvider>
+  );
+
+describe("activity scopes", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderScopes = (rollUpToParent: boolean) =>
+    renderHook(
+      () => ({
+        app: useInactify("app"),
+        editor: useInactify(),
+      }),
+      {
+        wrapper: createWrapper(rollUpToParent),
+      }
+    );
+
+  test("keeps a separate idle clock per scope", () => {
+    const { result } = renderScopes(false);
+    const start = Date.now();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+      result.current.editor.markActive();
+    });
+
+    expect(result.current.editor.lastActive()).toBe(start + 1000);
+    expect(result.current.app.lastActive()).toBe(start);
+    expect(
+      Object.keys(localStorage).some((key) => key.startsWith("editor_"))
+    ).toBe(true);
+  });
+
+  test("rolls activity up into the parent scope", () => {
+    const { result } = renderScopes(true);
+    const start = Date.now();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+      result.current.editor.markActive();
+    });
+
+    expect(result.current.app.lastActive()).toBe(start + 1000);
+  });
+
+  test("throws for unknown scopes", () => {
+    vi.spyOn(console, "error").mockImplementation(vi.fn());
+
+    expect(() =>
+      renderHook(() => useInactify("unknown"), {
+        wrapper: createWrapper(false),
+      })
+    ).toThrow('InactifyProvider with scope "unknown"');
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ActivityManager } from "../src/managers/activity-manager";
+import type { KeepAliveOptions } from "../src/managers/session-keep-alive";
+import { TabManager } from "../src/managers/tab-manager";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe("SessionKeepAlive", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    vi.useFakeTimers();
+    vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+      vi.fn()
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createActivityManager = (keepAlive: KeepAliveOptions) =>
+    new ActivityManager({
+      syncAcrossTabs: true,
+      syncTransport: "storage",
+      keepAlive: { minIntervalInMilliseconds: 60_000, ...keepAlive },
+    });
+
+  it("sends a keepalive on activity of the current tab", async () => {
+    const onKeepAlive = vi.fn().mockResolvedValue(undefined);
+    const activity = createActivityManager({ onKeepAlive });
+
+    // Subscribing does not count as activity
+    expect(onKeepAlive).not.toHaveBeenCalled();
+
+    activity.markActive();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onKeepAlive).toHaveBeenCalledWith(activity.getLastActivityTime());
+    expect(activity.getSessionKeepAlive()?.getState()).toMatchObject({
+      status: "succeeded",
+      lastActive: activity.getLastActivityTime(),
+    });
+    expect(activity.getSessionKeepAlive()?.hasLastKeepAliveSucceeded()).toBe(
+      true
+    );
+
+    activity.destroy();
+  });
+
+  it("sends activity within the interval once the interval has passed", async () => {
+    const onKeepAlive = vi.fn().mockResolvedValue(undefined);
+    const activity = createActivityManager({ onKeepAlive });
+
+    activity.markActive();
+    await vi.advanceTimersByTimeAsync(10_000);
+    activity.markActive();
+    await vi.advanceTimersByTimeAsync(10_000);
+    activity.markActive();
+    expect(onKeepAlive).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(40_000);
+    expect(onKeepAlive).toHaveBeenCalledTimes(2);
+    expect(onKeepAlive).toHaveBeenLastCalledWith(
+      activity.getLastActivityTime()
+    );
+
+    activity.destroy();
+  });
+
+  it("does not send again when another tab sent within the interval", async () => {
+    const onKeepAlive = vi.fn().mockResolvedValue(undefined);
+    const activity = createActivityManager({ onKeepAlive });
+
+    localStorage.setItem(
+      "keep_alive",
+      JSON.stringify({
+        status: "succeeded",
+        attemptedAt: Date.now(),
+        lastActive: Date.now(),
+        succeededAt: Date.now(),
+        tabId: "other",
+      })
+    );
+    activity.markActive(new Date(Date.now() - 1000));
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(onKeepAlive).not.toHaveBeenCalled();
+
+    activity.destroy();
+  });
+
+  it("ignores activity synced from other tabs", async () => {
+    const onKeepAlive = vi.fn().mockResolvedValue(undefined);
+    const activity = createActivityManager({ onKeepAlive });
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "last_active",
+        newValue: String(Date.now()),
+        storageArea: localStorage,
+      })
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onKeepAlive).not.toHaveBeenCalled();
+
+    activity.destroy();
+  });
+
+  it("retries failed keepalives with backoff", async () => {
+    const onKeepAlive = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue(undefined);
+    const activity = createActivityManager({
+      onKeepAlive,
+      retryDelayInMilliseconds: 1000,
+    });
+
+    activity.markActive();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onKeepAlive).toHaveBeenCalledTimes(1);
+    expect(activity.getSessionKeepAlive()?.getState()?.status).toBe("pending");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onKeepAlive).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(onKeepAlive).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onKeepAlive).toHaveBeenCalledTimes(3);
+    expect(activity.getSessionKeepAlive()?.hasLastKeepAliveSucceeded()).toBe(
+      true
+    );
+
+    activity.destroy();
+  });
+
+  it("reports a failure after the last retry", async () => {
+    const onKeepAlive = vi.fn().mockRejectedValue(new Error("offline"));
+    const activity = createActivityManager({
+      onKeepAlive,
+      maxRetries: 1,
+      retryDelayInMilliseconds: 1000,
+    });
+
+    activity.markActive();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onKeepAlive).toHaveBeenCalledTimes(2);
+    expect(activity.getSessionKeepAlive()?.getState()?.status).toBe("failed");
+    expect(activity.getSessionKeepAlive()?.hasLastKeepAliveSucceeded()).toBe(
+      false
+    );
+
+    activity.destroy();
+  });
+});
@@ -0,0 +1,47 @@
+// @vitest-environment node
+
+import { renderToString } from "react-dom/server";
+import { expect, test, describe } from "vitest";
+import {
+  InactifyProvider,
+  useActiveTabs,
+  useIdleCountdown,
+  useInactify,
+} from "../src";
+
+describe("server-side rendering", () => {
+  test("renders without touching browser globals", () => {
+    const Status = () => {
+      const { lastActive, isInactiveFor, getTabId, isPaused } = useInactify();
+      const tabs = useActiveTabs();
+      const { stage } = useIdleCountdown({
+        warnAfter: 1000,
+        timeoutAfter: 2000,
+      });
+
+      return (
+        <p>
+          {[
+            lastActive(),
+            isInactiveFor(1000),
+            getTabId(),
+            isPaused(),
+            tabs.length,
+            stage,
+          ]
+            .map(String)
+            .join("|")}
+        </p>
+      );
+    };
+
+    const html = renderToString(
+      <InactifyProvider>
+        <Status />
+      </InactifyProvider>
+    );
+
+    expect(typeof window).toBe("undefined");
+    expect(html).toBe("<p>null|false|null|false|0|active</p>");
+  });
+});
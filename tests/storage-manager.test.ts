@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { StorageManager } from "../src/storage/storage-manager";
+import {
+  isFiniteNumber,
+  isRecord,
+  type StorageSchema,
+} from "../src/storage/storage-schema";
 import { Logger } from "../src/debug/logger";
 
 vi.mock("../src/debug/logger", () => ({
@@ -62,6 +67,122 @@ describe("StorageManager", () => {
     });
   });
 
+  describe("setVersioned and getVersioned", () => {
+    interface Heartbeat {
+      timestamp: number;
+      visible: boolean;
+    }
+
+    const schema: StorageSchema<Heartbeat> = {
+      version: 2,
+      validate: (value): value is Heartbeat =>
+        isRecord(value) &&
+        isFiniteNumber(value["timestamp"]) &&
+        typeof value["visible"] === "boolean",
+      migrations: {
+        0: (value) => ({ timestamp: value }),
+        1: (value) => ({ ...(value as object), visible: true }),
+      },
+    };
+
+    it("stores values in an envelope with the version of their format", () => {
+      StorageManager.setVersioned(
+        "heartbeat",
+        { timestamp: 1000, visible: false },
+        schema
+      );
+
+      expect(JSON.parse(localStorage.getItem("heartbeat") ?? "")).toEqual({
+        version: 2,
+        value: { timestamp: 1000, visible: false },
+      });
+      expect(StorageManager.getVersioned("heartbeat", schema)).toEqual({
+        timestamp: 1000,
+        visible: false,
+      });
+    });
+
+    it("migrates values of older versions", () => {
+      localStorage.setItem(
+        "heartbeat",
+        JSON.stringify({ version: 1, value: { timestamp: 1000 } })
+      );
+
+      expect(StorageManager.getVersioned("heartbeat", schema)).toEqual({
+        timestamp: 1000,
+        visible: true,
+      });
+    });
+
+    it("reads values written before the envelope as the legacy version", () => {
+      localStorage.setItem("heartbeat", "1000");
+
+      expect(StorageManager.getVersioned("heartbeat", schema)).toEqual({
+        timestamp: 1000,
+        visible: true,
+      });
+    });
+
+    it("reads values of newer versions that pass the validation", () => {
+      localStorage.setItem(
+        "heartbeat",
+        JSON.stringify({
+          version: 3,
+          value: { timestamp: 1000, visible: true, label: "new" },
+        })
+      );
+
+      expect(StorageManager.getVersioned("heartbeat", schema)).toEqual({
+        timestamp: 1000,
+        visible: true,
+        label: "new",
+      });
+    });
+
+    it("ignores values of newer versions that fail the validation", () => {
+      const stored = JSON.stringify({ version: 3, value: { at: 1000 } });
+      localStorage.setItem("heartbeat", stored);
+
+      expect(StorageManager.getVersioned("heartbeat", schema)).toBeUndefined();
+      // Still used by the tabs running the newer version
+      expect(localStorage.getItem("heartbeat")).toBe(stored);
+    });
+
+    it("removes corrupt values", () => {
+      localStorage.setItem(
+        "heartbeat",
+        JSON.stringify({ version: 2, value: { timestamp: "soon" } })
+      );
+      localStorage.setItem("broken", "not-json");
+
+      expect(StorageManager.getVersioned("heartbeat", schema)).toBeUndefined();
+      expect(StorageManager.getVersioned("broken", schema)).toBeUndefined();
+      expect(localStorage.getItem("heartbeat")).toBeNull();
+      expect(localStorage.getItem("broken")).toBeNull();
+      expect(Logger.warning).toHaveBeenCalledWith(
+        "Removing corrupt storage value",
+        { key: "broken" }
+      );
+    });
+
+    it("removes values whose migration fails", () => {
+      const failingSchema: StorageSchema<Heartbeat> = {
+        ...schema,
+        migrations: {
+          0: () => {
+            throw new Error("Unknown format");
+          },
+        },
+      };
+      localStorage.setItem("heartbeat", "1000");
+
+      expect(
+        StorageManager.getVersioned("heartbeat", failingSchema)
+      ).toBeUndefined();
+      expect(localStorage.getItem("heartbeat")).toBeNull();
+    });
+  });
+
   describe("setString and getString", () => {
     it("stores and retrieves a string", () => {
       const key = "token";
@@ -0,0 +1,223 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { BroadcastChannelTransport } from "../src/sync/broadcast-channel-transport";
+import { StorageEventTransport } from "../src/sync/storage-event-transport";
+import { createSyncTransport } from "../src/sync/create-sync-transport";
+import { isSyncMessage, type SyncMessage } from "../src/sync/sync-transport";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const CHANNEL_KEY = "inactify_sync";
+const ACTIVITY_KEY = "last_active";
+
+describe("isSyncMessage", () => {
+  it("accepts known message types", () => {
+    expect(isSyncMessage({ type: "activity", timestamp: 1 })).toBe(true);
+    expect(isSyncMessage({ type: "logout", reason: "idle" })).toBe(true);
+    expect(isSyncMessage({ type: "tab-joined", tabId: "tab1" })).toBe(true);
+    expect(isSyncMessage({ type: "resume", lastActive: 1 })).toBe(true);
+  });
+
+  it("rejects unknown or malformed messages", () => {
+    expect(isSyncMessage(null)).toBe(false);
+    expect(isSyncMessage("activity")).toBe(false);
+    expect(isSyncMessage({ type: "unknown" })).toBe(false);
+    expect(isSyncMessage({ type: "activity", timestamp: "1" })).toBe(false);
+    expect(isSyncMessage({ type: "resume", lastActive: "1" })).toBe(false);
+  });
+});
+
+describe("BroadcastChannelTransport", () => {
+  it("delivers messages to other channel instances", async () => {
+    const sender = new BroadcastChannelTransport("test_channel");
+    const receiver = new BroadcastChannelTransport("test_channel");
+    const message: SyncMessage = {
+      type: "activity",
+      tabId: "tab1",
+      timestamp: 1000,
+    };
+
+    const received = new Promise<SyncMessage>((resolve) => {
+      receiver.subscribe(resolve);
+    });
+    sender.post(message);
+
+    await expect(received).resolves.toEqual(message);
+
+    sender.close();
+    receiver.close();
+  });
+});
+
+describe("StorageEventTransport", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  const createTransport = () =>
+    new StorageEventTransport({
+      storage: localStorage,
+      channelKey: CHANNEL_KEY,
+      activityKey: ACTIVITY_KEY,
+    });
+
+  it("emits activity messages for changes to the activity key", () => {
+    const transport = createTransport();
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: ACTIVITY_KEY,
+        newValue: "1000",
+        storageArea: localStorage,
+      })
+    );
+
+    expect(listener).toHaveBeenCalledWith({
+      type: "activity",
+      timestamp: 1000,
+    });
+
+    transport.close();
+  });
+
+  it("emits activity written in an envelope or by older versions", () => {
+    const transport = createTransport();
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    for (const newValue of [
+      JSON.stringify({ version: 1, value: 1000 }),
+      "2000",
+      JSON.stringify({ version: 1, value: "later" }),
+    ]) {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: ACTIVITY_KEY,
+          newValue,
+          storageArea: localStorage,
+        })
+      );
+    }
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: "activity", timestamp: 1000 }],
+      [{ type: "activity", timestamp: 2000 }],
+    ]);
+
+    transport.close();
+  });
+
+  it("writes non-activity messages to the channel key", () => {
+    const transport = createTransport();
+
+    transport.post({ type: "activity", timestamp: 1000 });
+    expect(localStorage.getItem(CHANNEL_KEY)).toBeNull();
+
+    transport.post({ type: "logout", reason: "idle" });
+    const stored = JSON.parse(localStorage.getItem(CHANNEL_KEY) ?? "{}");
+    expect(stored.version).toBe(1);
+    expect(stored.value.message).toEqual({ type: "logout", reason: "idle" });
+
+    transport.close();
+  });
+
+  it("emits messages written to the channel key by other tabs", () => {
+    const transport = createTransport();
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: CHANNEL_KEY,
+        newValue: JSON.stringify({
+          message: { type: "tab-joined", tabId: "tab2" },
+          nonce: "1",
+        }),
+        storageArea: localStorage,
+      })
+    );
+
+    expect(listener).toHaveBeenCalledWith({
+      type: "tab-joined",
+      tabId: "tab2",
+    });
+
+    transport.close();
+  });
+
+  it("ignores messages of newer versions it does not know", () => {
+    const transport = createTransport();
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: CHANNEL_KEY,
+        newValue: JSON.stringify({
+          version: 2,
+          value: { message: { type: "extend", tabId: "tab2" }, nonce: "1" },
+        }),
+        storageArea: localStorage,
+      })
+    );
+
+    expect(listener).not.toHaveBeenCalled();
+
+    transport.close();
+  });
+
+  it("stops emitting after close", () => {
+    const transport = createTransport();
+    const listener = vi.fn();
+    transport.subscribe(listener);
+    transport.close();
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: ACTIVITY_KEY,
+        newValue: "1000",
+        storageArea: localStorage,
+      })
+    );
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("createSyncTransport", () => {
+  const options = {
+    channelName: CHANNEL_KEY,
+    storage: localStorage,
+    activityKey: ACTIVITY_KEY,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prefers BroadcastChannel when supported", () => {
+    const transport = createSyncTransport("auto", options);
+    expect(transport).toBeInstanceOf(BroadcastChannelTransport);
+    transport.close();
+  });
+
+  it("falls back to storage events when BroadcastChannel is unavailable", () => {
+    vi.spyOn(BroadcastChannelTransport, "isSupported").mockReturnValue(false);
+
+    const transport = createSyncTransport("broadcast-channel", options);
+    expect(transport).toBeInstanceOf(StorageEventTransport);
+    transport.close();
+  });
+
+  it("returns custom transports as is", () => {
+    const custom = { post: vi.fn(), subscribe: vi.fn(), close: vi.fn() };
+    expect(createSyncTransport(custom, options)).toBe(custom);
+  });
+});
@@ -10,20 +10,22 @@ const INACTIFY_ACTIVE_TABS = "inactify_active_tabs";
 const TAB_INACTIVE_TIMEOUT = 30 * MINUTE;
 
 describe("TabManager", () => {
+  let tabManager: TabManager;
+
   beforeEach(() => {
     // Clear all storage before each test
     localStorage.clear();
     sessionStorage.clear();
 
-    // Reset the private _tabId before each test
-    // @ts-expect-error
-    TabManager._tabId = null;
-
     // Mock Date.now to control time
     vi.useFakeTimers();
+
+    tabManager = new TabManager();
   });
 
   afterEach(() => {
+    tabManager.destroy();
+
     // Restore real timers after each test
     vi.useRealTimers();
     vi.restoreAllMocks();
@@ -37,11 +39,11 @@ describe("TabManager", () => {
         .mockReturnValueOnce("be4bf048-b28b-459e-8f6b-f4a5240070f0");
       const setSessionSpy = vi.spyOn(StorageManager, "setSession");
 
-      const id = TabManager.tabId;
+      const id = tabManager.tabId;
 
       expect(id).toBe("be4bf048-b28b-459e-8f6b-f4a5240070f0");
       expect(uuidSpy).toHaveBeenCalledOnce();
-      expect(setSessionSpy).toHaveBeenCalledWith(INACTIFY_TAB_ID, id);
+      expect(setSessionSpy).toHaveBeenCalledWith(INACTIFY_TAB_ID, id, Logger);
     });
 
     it("should return the existing tab ID from session storage", () => {
@@ -51,7 +53,7 @@ describe("TabManager", () => {
       const uuidSpy = vi.spyOn(crypto, "randomUUID");
       const setSessionSpy = vi.spyOn(StorageManager, "setSession");
 
-      const id = TabManager.tabId;
+      const id = tabManager.tabId;
 
       expect(id).toBe("existing-tab-id");
       expect(uuidSpy).not.toHaveBeenCalled();
@@ -65,18 +67,93 @@ describe("TabManager", () => {
       );
       vi.spyOn(StorageManager, "setSession");
 
-      const id1 = TabManager.tabId;
-      const id2 = TabManager.tabId;
+      const id1 = tabManager.tabId;
+      const id2 = tabManager.tabId;
 
       expect(id1).toBe("be4bf048-b28b-459e-8f6b-f4a5240070f0");
       expect(id2).toBe("be4bf048-b28b-459e-8f6b-f4a5240070f0");
     });
   });
 
+  describe("registerCurrentTab", () => {
+    it("should track tabs in the provided storage", () => {
+      const sessionTabManager = new TabManager({ storage: sessionStorage });
+      const currentTabId = sessionTabManager.tabId;
+
+      sessionTabManager.registerCurrentTab();
+
+      expect(sessionStorage.getItem(INACTIFY_ACTIVE_TABS)).toContain(
+        currentTabId
+      );
+      expect(localStorage.getItem(INACTIFY_ACTIVE_TABS)).toBeNull();
+      expect(sessionTabManager.getActiveTabsCount()).toBe(1);
+
+      sessionTabManager.destroy();
+    });
+
+    it("should honor the storage prefix", () => {
+      const prefixedTabManager = new TabManager({ storagePrefix: "app" });
+
+      prefixedTabManager.registerCurrentTab();
+
+      expect(localStorage.getItem(`app_${INACTIFY_ACTIVE_TABS}`)).toContain(
+        prefixedTabManager.tabId
+      );
+      expect(localStorage.getItem(INACTIFY_ACTIVE_TABS)).toBeNull();
+
+      prefixedTabManager.destroy();
+    });
+  });
+
+  describe("clearStorage", () => {
+    it("should remove the heartbeat of the current tab and the tab ID", () => {
+      const tabId = tabManager.tabId;
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ [tabId]: Date.now() })
+      );
+
+      tabManager.clearStorage();
+
+      expect(localStorage.getItem(INACTIFY_ACTIVE_TABS)).toBeNull();
+      expect(sessionStorage.getItem("inactify_tab_id")).toBeNull();
+      expect(tabManager.tabId).toBe(tabId);
+    });
+
+    it("should keep the heartbeats of other tabs", () => {
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ otherTab: Date.now(), [tabManager.tabId]: Date.now() })
+      );
+
+      tabManager.clearStorage();
+
+      expect(tabManager.getActiveTabIds()).toEqual(["otherTab"]);
+    });
+
+    it("should track the registered tab again right away", () => {
+      tabManager.registerCurrentTab();
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ otherTab: Date.now(), [tabManager.tabId]: Date.now() })
+      );
+
+      tabManager.clearStorage();
+
+      expect(tabManager.getActiveTabIds()).toEqual([
+        "otherTab",
+        tabManager.tabId,
+      ]);
+      expect(sessionStorage.getItem("inactify_tab_id")).toBe(
+        JSON.stringify(tabManager.tabId)
+      );
+    });
+  });
+
   describe("getActiveTabsCount", () => {
     it("should return 0 if no active tabs are stored", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(null);
-      expect(TabManager.getActiveTabsCount()).toBe(0);
+      expect(tabManager.getActiveTabsCount()).toBe(0);
     });
 
     it("should return the correct count of active tabs", () => {
@@ -85,7 +162,7 @@ describe("TabManager", () => {
         tab2: Date.now() - 2000,
       };
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
-      expect(TabManager.getActiveTabsCount()).toBe(2);
+      expect(tabManager.getActiveTabsCount()).toBe(2);
     });
 
     it("should remove inactive tab entries and update storage", () => {
@@ -97,12 +174,20 @@ describe("TabManager", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      const count = TabManager.getActiveTabsCount();
+      const count = tabManager.getActiveTabsCount();
 
       expect(count).toBe(1);
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        activeTab: now - 1000,
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            activeTab: now - 1000,
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
 
     it("should handle errors gracefully and log them", () => {
@@ -111,32 +196,51 @@ describe("TabManager", () => {
       });
       const loggerErrorSpy = vi.spyOn(Logger, "error");
 
-      expect(TabManager.getActiveTabsCount()).toBe(1);
+      expect(tabManager.getActiveTabsCount()).toBe(1);
       expect(loggerErrorSpy).toHaveBeenCalledWith(
         "Failed to get current tab count",
         expect.any(Error)
       );
     });
+
+    it("should not count corrupt tab entries", () => {
+      const now = Date.now();
+      vi.spyOn(StorageManager, "get").mockReturnValueOnce({
+        activeTab: { timestamp: now - 1000, visible: true },
+        corruptTab1: { timestamp: "yesterday" },
+        corruptTab2: null,
+      });
+
+      expect(tabManager.getActiveTabsCount()).toBe(1);
+    });
   });
 
   describe("trackCurrentTab (private)", () => {
     it("should update the timestamp for the current tab", () => {
-      const currentTabId = TabManager.tabId; // Ensure a tabId is generated
+      const currentTabId = tabManager.tabId; // Ensure a tabId is generated
       const now = Date.now();
       vi.setSystemTime(now);
 
       vi.spyOn(StorageManager, "get").mockReturnValueOnce({}); // No existing tabs
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      (TabManager as any).trackCurrentTab();
+      (tabManager as any).trackCurrentTab();
 
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        [currentTabId]: now,
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            [currentTabId]: { timestamp: now, visible: true },
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
 
     it("should preserve other active tabs when updating the current tab", () => {
-      const currentTabId = TabManager.tabId;
+      const currentTabId = tabManager.tabId;
       const now = Date.now();
       vi.setSystemTime(now);
 
@@ -146,16 +250,48 @@ describe("TabManager", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockExistingTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      (TabManager as any).trackCurrentTab();
+      (tabManager as any).trackCurrentTab();
 
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        otherTab: now - 5000,
-        [currentTabId]: now,
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            otherTab: now - 5000,
+            [currentTabId]: { timestamp: now, visible: true },
+          },
+        },
+        localStorage,
+        Logger
+      );
+    });
+
+    it("should record whether the current tab is hidden", () => {
+      const currentTabId = tabManager.tabId;
+      const now = Date.now();
+      vi.setSystemTime(now);
+      vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+
+      vi.spyOn(StorageManager, "get").mockReturnValueOnce({});
+      const setStorageSpy = vi.spyOn(StorageManager, "set");
+
+      (tabManager as any).trackCurrentTab();
+
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            [currentTabId]: { timestamp: now, visible: false },
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
 
     it("should remove inactive tab entries when tracking", () => {
-      const currentTabId = TabManager.tabId;
+      const currentTabId = tabManager.tabId;
       const now = Date.now();
       vi.setSystemTime(now);
 
@@ -166,18 +302,26 @@ describe("TabManager", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockExistingTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      (TabManager as any).trackCurrentTab();
+      (tabManager as any).trackCurrentTab();
 
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        activeTab: now - 1000,
-        [currentTabId]: now,
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            activeTab: now - 1000,
+            [currentTabId]: { timestamp: now, visible: true },
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
   });
 
   describe("markCurrentTabInactive (private)", () => {
     it("should remove the current tab from active tabs", () => {
-      const currentTabId = TabManager.tabId;
+      const currentTabId = tabManager.tabId;
       const mockTabs = {
         [currentTabId]: Date.now(),
         otherTab: Date.now(),
@@ -185,26 +329,36 @@ describe("TabManager", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      (TabManager as any).markCurrentTabInactive();
+      (tabManager as any).markCurrentTabInactive();
 
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        otherTab: expect.any(Number),
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            otherTab: expect.any(Number),
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
 
     it("should do nothing if the current tab is not found in active tabs", () => {
-      vi.spyOn(TabManager, "tabId", "get").mockReturnValue("non-existent-id");
+      vi.spyOn(tabManager, "tabId", "get").mockReturnValue("non-existent-id");
       const mockTabs = {
         otherTab: Date.now(),
       };
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      (TabManager as any).markCurrentTabInactive();
+      (tabManager as any).markCurrentTabInactive();
 
       expect(setStorageSpy).toHaveBeenCalledWith(
         INACTIFY_ACTIVE_TABS,
-        mockTabs
+        { version: 1, value: mockTabs },
+        localStorage,
+        Logger
       );
     });
   });
@@ -221,7 +375,7 @@ describe("TabManager", () => {
         inactiveTab2: now - (TAB_INACTIVE_TIMEOUT + 5000),
       };
 
-      const hasChanges = (TabManager as any).removeInactiveTabEntries(tabs);
+      const hasChanges = (tabManager as any).removeInactiveTabEntries(tabs);
 
       expect(hasChanges).toBe(true);
       expect(tabs).toEqual({
@@ -239,7 +393,7 @@ describe("TabManager", () => {
         activeTab2: now - TAB_INACTIVE_TIMEOUT / 2,
       };
 
-      const hasChanges = (TabManager as any).removeInactiveTabEntries(tabs);
+      const hasChanges = (tabManager as any).removeInactiveTabEntries(tabs);
 
       expect(hasChanges).toBe(false);
       expect(tabs).toEqual({
@@ -250,7 +404,7 @@ describe("TabManager", () => {
 
     it("should handle empty tabs object", () => {
       const tabs = {};
-      const hasChanges = (TabManager as any).removeInactiveTabEntries(tabs);
+      const hasChanges = (tabManager as any).removeInactiveTabEntries(tabs);
       expect(hasChanges).toBe(false);
       expect(tabs).toEqual({});
     });
@@ -259,7 +413,7 @@ describe("TabManager", () => {
   describe("getActiveTabIds", () => {
     it("should return an empty array if no active tabs are stored", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(null);
-      expect(TabManager.getActiveTabIds()).toEqual([]);
+      expect(tabManager.getActiveTabIds()).toEqual([]);
     });
 
     it("should return the IDs of currently active tabs", () => {
@@ -269,7 +423,7 @@ describe("TabManager", () => {
         tab2: now - 2000,
       };
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
-      expect(TabManager.getActiveTabIds()).toEqual(["tab1", "tab2"]);
+      expect(tabManager.getActiveTabIds()).toEqual(["tab1", "tab2"]);
     });
 
     it("should remove inactive tab entries and update storage when getting IDs", () => {
@@ -281,12 +435,20 @@ describe("TabManager", () => {
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
       const setStorageSpy = vi.spyOn(StorageManager, "set");
 
-      const activeIds = TabManager.getActiveTabIds();
+      const activeIds = tabManager.getActiveTabIds();
 
       expect(activeIds).toEqual(["activeTab"]);
-      expect(setStorageSpy).toHaveBeenCalledWith(INACTIFY_ACTIVE_TABS, {
-        activeTab: now - 1000,
-      });
+      expect(setStorageSpy).toHaveBeenCalledWith(
+        INACTIFY_ACTIVE_TABS,
+        {
+          version: 1,
+          value: {
+            activeTab: now - 1000,
+          },
+        },
+        localStorage,
+        Logger
+      );
     });
 
     it("should handle errors gracefully and log them, returning only the current tab ID", () => {
@@ -294,9 +456,9 @@ describe("TabManager", () => {
         throw new Error("Storage read error");
       });
       const loggerErrorSpy = vi.spyOn(Logger, "error");
-      const currentTabId = TabManager.tabId; // Ensure tabId is initialized
+      const currentTabId = tabManager.tabId; // Ensure tabId is initialized
 
-      expect(TabManager.getActiveTabIds()).toEqual([currentTabId]);
+      expect(tabManager.getActiveTabIds()).toEqual([currentTabId]);
       expect(loggerErrorSpy).toHaveBeenCalledWith(
         "Failed to get active tab IDs",
         expect.any(Error)
@@ -304,6 +466,120 @@ describe("TabManager", () => {
     });
   });
 
+  describe("getVisibleTabIds", () => {
+    it("should return only tabs that were visible at their last heartbeat", () => {
+      const now = Date.now();
+      vi.spyOn(StorageManager, "get").mockReturnValueOnce({
+        visibleTab: { timestamp: now, visible: true },
+        hiddenTab: { timestamp: now, visible: false },
+        legacyTab: now,
+      });
+
+      expect(tabManager.getVisibleTabIds()).toEqual([
+        "visibleTab",
+        "legacyTab",
+      ]);
+    });
+  });
+
+  describe("tracking options", () => {
+    it("should use the configured stale tab timeout", () => {
+      const now = Date.now();
+      const fastTabManager = new TabManager({
+        heartbeatIntervalInMilliseconds: 1000,
+        staleTabTimeoutInMilliseconds: 5000,
+      });
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ activeTab: now - 1000, staleTab: now - 6000 })
+      );
+
+      expect(fastTabManager.getActiveTabIds()).toEqual(["activeTab"]);
+    });
+
+    it("should send heartbeats at the configured interval", () => {
+      const fastTabManager = new TabManager({
+        heartbeatIntervalInMilliseconds: 1000,
+        staleTabTimeoutInMilliseconds: 5000,
+      });
+      fastTabManager.registerCurrentTab();
+      const setStorageSpy = vi.spyOn(StorageManager, "set");
+
+      vi.advanceTimersByTime(3000);
+
+      expect(setStorageSpy).toHaveBeenCalledTimes(3);
+
+      fastTabManager.destroy();
+    });
+
+    it("should reject a heartbeat interval that is not below the stale timeout", () => {
+      expect(
+        () =>
+          new TabManager({
+            heartbeatIntervalInMilliseconds: 5000,
+            staleTabTimeoutInMilliseconds: 5000,
+          })
+      ).toThrow();
+    });
+  });
+
+  describe("page lifecycle", () => {
+    // happy-dom does not implement PageTransitionEvent
+    const createPageTransitionEvent = (type: string, persisted: boolean) =>
+      Object.assign(new Event(type), { persisted });
+
+    it("should remove the current tab on pagehide", () => {
+      tabManager.registerCurrentTab();
+
+      window.dispatchEvent(createPageTransitionEvent("pagehide", false));
+
+      expect(tabManager.getActiveTabIds()).toEqual([]);
+    });
+
+    it("should track the current tab again when restored from the bfcache", () => {
+      tabManager.registerCurrentTab();
+      window.dispatchEvent(createPageTransitionEvent("pagehide", true));
+
+      window.dispatchEvent(createPageTransitionEvent("pageshow", true));
+
+      expect(tabManager.getActiveTabIds()).toEqual([tabManager.tabId]);
+    });
+  });
+
+  describe("destroy", () => {
+    it("should stop the heartbeat and remove the current tab", () => {
+      tabManager.registerCurrentTab();
+      expect(tabManager.getActiveTabIds()).toEqual([tabManager.tabId]);
+
+      const setStorageSpy = vi.spyOn(StorageManager, "set");
+      tabManager.destroy();
+
+      expect(tabManager.getActiveTabIds()).toEqual([]);
+
+      setStorageSpy.mockClear();
+      vi.advanceTimersByTime(TAB_INACTIVE_TIMEOUT);
+      expect(setStorageSpy).not.toHaveBeenCalled();
+    });
+
+    it("should stop notifying tab listeners", () => {
+      const listener = vi.fn();
+      tabManager.subscribeToTabs(listener);
+      tabManager.destroy();
+
+      const newValue = JSON.stringify({ tab1: Date.now() });
+      localStorage.setItem(INACTIFY_ACTIVE_TABS, newValue);
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: INACTIFY_ACTIVE_TABS,
+          newValue,
+          storageArea: localStorage,
+        })
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   describe("isTabActive", () => {
     it("should return true if the tab ID exists in active tabs", () => {
       const mockTabs = {
@@ -311,7 +587,7 @@ describe("TabManager", () => {
         tab2: Date.now(),
       };
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
-      expect(TabManager.isTabActive("tab1")).toBe(true);
+      expect(tabManager.isTabActive("tab1")).toBe(true);
     });
 
     it("should return false if the tab ID does not exist in active tabs", () => {
@@ -319,7 +595,142 @@ describe("TabManager", () => {
         tab1: Date.now(),
       };
       vi.spyOn(StorageManager, "get").mockReturnValueOnce(mockTabs);
-      expect(TabManager.isTabActive("tab3")).toBe(false);
+      expect(tabManager.isTabActive("tab3")).toBe(false);
+    });
+  });
+
+  describe("leader election", () => {
+    it("should elect the active tab with the lowest tab ID", () => {
+      vi.spyOn(tabManager, "tabId", "get").mockReturnValue("tab-b");
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ "tab-b": Date.now(), "tab-c": Date.now() })
+      );
+      expect(tabManager.isLeader()).toBe(true);
+
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ "tab-a": Date.now(), "tab-b": Date.now() })
+      );
+      expect(tabManager.isLeader()).toBe(false);
+    });
+
+    it("should not elect a tab whose heartbeat is stale", () => {
+      vi.spyOn(tabManager, "tabId", "get").mockReturnValue("tab-b");
+      const now = Date.now();
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({
+          "tab-a": now - (TAB_INACTIVE_TIMEOUT + 1000),
+          "tab-b": now,
+        })
+      );
+
+      expect(tabManager.isLeader()).toBe(true);
+    });
+
+    it("should notify listeners when the leader tab closes", () => {
+      vi.spyOn(tabManager, "tabId", "get").mockReturnValue("tab-b");
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ "tab-a": Date.now(), "tab-b": Date.now() })
+      );
+
+      const listener = vi.fn();
+      tabManager.onLeadershipChange(listener);
+
+      // The leader tab removes itself on unload in another tab
+      const newValue = JSON.stringify({ "tab-b": Date.now() });
+      localStorage.setItem(INACTIFY_ACTIVE_TABS, newValue);
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: INACTIFY_ACTIVE_TABS,
+          newValue,
+          storageArea: localStorage,
+        })
+      );
+
+      expect(listener).toHaveBeenCalledWith(true);
+    });
+
+    it("should stop notifying after unsubscribing", () => {
+      vi.spyOn(tabManager, "tabId", "get").mockReturnValue("tab-b");
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ "tab-a": Date.now(), "tab-b": Date.now() })
+      );
+
+      const listener = vi.fn();
+      const unsubscribe = tabManager.onLeadershipChange(listener);
+      unsubscribe();
+
+      localStorage.setItem(
+        INACTIFY_ACTIVE_TABS,
+        JSON.stringify({ "tab-b": Date.now() })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: INACTIFY_ACTIVE_TABS,
+          storageArea: localStorage,
+        })
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("subscribeToTabs", () => {
+    const dispatchTabsChange = (tabs: Record<string, number>) => {
+      const newValue = JSON.stringify(tabs);
+      localStorage.setItem(INACTIFY_ACTIVE_TABS, newValue);
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: INACTIFY_ACTIVE_TABS,
+          newValue,
+          storageArea: localStorage,
+        })
+      );
+    };
+
+    it("should notify listeners when a tab joins or leaves", () => {
+      dispatchTabsChange({ tab1: Date.now() });
+
+      const listener = vi.fn();
+      tabManager.subscribeToTabs(listener);
+
+      dispatchTabsChange({ tab1: Date.now(), tab2: Date.now() });
+      expect(listener).toHaveBeenLastCalledWith(["tab1", "tab2"]);
+
+      dispatchTabsChange({ tab2: Date.now() });
+      expect(listener).toHaveBeenLastCalledWith(["tab2"]);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not notify listeners when only heartbeats change", () => {
+      dispatchTabsChange({ tab1: Date.now() });
+
+      const listener = vi.fn();
+      tabManager.subscribeToTabs(listener);
+
+      vi.advanceTimersByTime(1000);
+      dispatchTabsChange({ tab1: Date.now() });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should ignore changes to other storage areas", () => {
+      const listener = vi.fn();
+      tabManager.subscribeToTabs(listener);
+
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: INACTIFY_ACTIVE_TABS,
+          newValue: JSON.stringify({ tab1: Date.now() }),
+          storageArea: sessionStorage,
+        })
+      );
+
+      expect(listener).not.toHaveBeenCalled();
     });
   });
 });
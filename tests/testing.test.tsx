@@ -0,0 +1,144 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, afterEach, vi } from "vitest";
+import { useActiveTabs, useInactify } from "../src";
+import {
+  createTestInactify,
+  FakeClock,
+  type TestInactify,
+} from "../src/testing";
+
+describe("FakeClock", () => {
+  let clock: FakeClock | undefined;
+
+  afterEach(() => {
+    clock?.uninstall();
+  });
+
+  test("runs due timers in order when advanced", () => {
+    clock = new FakeClock({ now: 1000 });
+    clock.install();
+    const calls: string[] = [];
+
+    setTimeout(() => calls.push(`timeout at ${Date.now()}`), 300);
+    const intervalId = setInterval(
+      () => calls.push(`interval at ${Date.now()}`),
+      200
+    );
+    window.setTimeout(() => calls.push("zero delay"), 0);
+
+    clock.advance(450);
+    clearInterval(intervalId);
+    clock.advance(1000);
+
+    expect(calls).toEqual([
+      "zero delay",
+      "interval at 1200",
+      "timeout at 1300",
+      "interval at 1400",
+    ]);
+    expect(Date.now()).toBe(2450);
+    expect(performance.now()).toBe(1450);
+    expect(clock.getTimerCount()).toBe(0);
+  });
+
+  test("changes only the wall clock when the system time is set", () => {
+    clock = new FakeClock({ now: 1000 });
+    clock.install();
+    const callback = vi.fn();
+    setTimeout(callback, 100);
+
+    clock.setSystemTime(60_000);
+
+    expect(Date.now()).toBe(60_000);
+    expect(performance.now()).toBe(0);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  test("restores the real clocks and timers", () => {
+    const realSetTimeout = globalThis.setTimeout;
+    clock = new FakeClock({ now: 1000 });
+    clock.install();
+
+    clock.uninstall();
+
+    expect(globalThis.setTimeout).toBe(realSetTimeout);
+    expect(Date.now()).not.toBe(1000);
+  });
+});
+
+describe("createTestInactify", () => {
+  let inactify: TestInactify | undefined;
+
+  afterEach(() => {
+    inactify?.cleanup();
+  });
+
+  test("syncs activity between simulated tabs", () => {
+    inactify = createTestInactify({ now: 0 });
+    const tab1 = inactify.openTab();
+    const tab2 = inactify.openTab();
+    const { result: first } = renderHook(() => useInactify(), {
+      wrapper: tab1.Provider,
+    });
+    const { result: second } = renderHook(() => useInactify(), {
+      wrapper: tab2.Provider,
+    });
+
+    act(() => {
+      inactify?.clock.advance(5000);
+      first.current.markActive();
+    });
+
+    expect(second.current.lastActive()).toBe(5000);
+    expect(second.current.lastActivityMetadata()).toEqual({
+      source: "remote",
+      tabId: tab1.tabId,
+      label: undefined,
+    });
+  });
+
+  test("fires inactivity callbacks when the clock reaches the timeout", () => {
+    inactify = createTestInactify({ now: 0 });
+    const tab1 = inactify.openTab();
+    const tab2 = inactify.openTab();
+    const { result: first } = renderHook(() => useInactify(), {
+      wrapper: tab1.Provider,
+    });
+    const { result: second } = renderHook(() => useInactify(), {
+      wrapper: tab2.Provider,
+    });
+    const onIdle = vi.fn();
+    second.current.subscribeToInactivity(10_000, onIdle);
+
+    act(() => {
+      inactify?.clock.advance(6000);
+      first.current.markActive();
+      inactify?.clock.advance(9999);
+    });
+    expect(onIdle).not.toHaveBeenCalled();
+
+    act(() => inactify?.clock.advance(1));
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  test("tracks the simulated tabs", () => {
+    inactify = createTestInactify();
+    const tab1 = inactify.openTab();
+    const tab2 = inactify.openTab();
+    const { result } = renderHook(() => useActiveTabs(), {
+      wrapper: tab1.Provider,
+    });
+    const { unmount } = renderHook(() => useActiveTabs(), {
+      wrapper: tab2.Provider,
+    });
+
+    expect(result.current).toEqual(["tab-1", "tab-2"]);
+
+    unmount();
+    tab2.close();
+
+    expect(result.current).toEqual(["tab-1"]);
+  });
+});
@@ -0,0 +1,66 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { InactifyProvider, useActiveTabs, useIsOnlyTab } from "../src";
+import { TabManager } from "../src/managers/tab-manager";
+
+const INACTIFY_ACTIVE_TABS = "inactify_active_tabs";
+
+const setActiveTabs = (tabs: Record<string, number>) => {
+  const newValue = JSON.stringify(tabs);
+  localStorage.setItem(INACTIFY_ACTIVE_TABS, newValue);
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key: INACTIFY_ACTIVE_TABS,
+      newValue,
+      storageArea: localStorage,
+    })
+  );
+};
+
+describe("tab presence hooks", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("useActiveTabs re-renders when tabs join and leave", () => {
+    const { result } = renderHook(() => useActiveTabs(), {
+      wrapper: InactifyProvider,
+    });
+    const currentTabId = new TabManager().tabId;
+
+    expect(result.current).toEqual([currentTabId]);
+
+    act(() => {
+      setActiveTabs({ [currentTabId]: Date.now(), other: Date.now() });
+    });
+    expect(result.current).toEqual([currentTabId, "other"].sort());
+
+    act(() => {
+      setActiveTabs({ [currentTabId]: Date.now() });
+    });
+    expect(result.current).toEqual([currentTabId]);
+  });
+
+  test("useIsOnlyTab reflects other open tabs", () => {
+    const { result } = renderHook(() => useIsOnlyTab(), {
+      wrapper: InactifyProvider,
+    });
+
+    expect(result.current).toBe(true);
+
+    act(() => {
+      setActiveTabs({
+        [new TabManager().tabId]: Date.now(),
+        other: Date.now(),
+      });
+    });
+    expect(result.current).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { InactifyProvider, useIdleCountdown } from "../src";
+
+describe("useIdleCountdown", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderCountdown = () =>
+    renderHook(
+      () => useIdleCountdown({ warnAfter: 5000, timeoutAfter: 10000 }),
+      {
+        wrapper: InactifyProvider,
+      }
+    );
+
+  test("starts in the active stage", () => {
+    const { result } = renderCountdown();
+
+    expect(result.current.stage).toBe("active");
+    expect(result.current.isWarning).toBe(false);
+    expect(result.current.remainingInMilliseconds).toBe(10000);
+  });
+
+  test("shows the warning and counts down every second", () => {
+    const { result } = renderCountdown();
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(result.current.isWarning).toBe(true);
+    expect(result.current.remainingInMilliseconds).toBe(5000);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.remainingInMilliseconds).toBe(4000);
+  });
+
+  test("times out after timeoutAfter", () => {
+    const { result } = renderCountdown();
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+
+    expect(result.current.isTimedOut).toBe(true);
+    expect(result.current.remainingInMilliseconds).toBe(0);
+  });
+
+  test("staySignedIn dismisses the warning", () => {
+    const { result } = renderCountdown();
+
+    act(() => {
+      vi.advanceTimersByTime(6000);
+    });
+    expect(result.current.isWarning).toBe(true);
+
+    act(() => {
+      result.current.staySignedIn();
+    });
+    expect(result.current.stage).toBe("active");
+    expect(result.current.remainingInMilliseconds).toBe(10000);
+  });
+
+  test("rejects a warning that starts after the timeout", () => {
+    vi.spyOn(console, "error").mockImplementation(vi.fn());
+
+    expect(() =>
+      renderHook(
+        () => useIdleCountdown({ warnAfter: 10000, timeoutAfter: 5000 }),
+        { wrapper: InactifyProvider }
+      )
+    ).toThrow("warnAfter must be less than timeoutAfter");
+  });
+});
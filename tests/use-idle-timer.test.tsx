@@ -0,0 +1,106 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { InactifyProvider, useIdleTimer, type IdleTimerOptions } from "../src";
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <InactifyProvider defaultOptions={{ syncTransport: "storage" }}>
+    {children}
+  </InactifyProvider>
+);
+
+describe("useIdleTimer", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderIdleTimer = (options: IdleTimerOptions) =>
+    renderHook((props: IdleTimerOptions) => useIdleTimer(props), {
+      wrapper,
+      initialProps: options,
+    });
+
+  test("calls onIdle and sets isIdle after the timeout", () => {
+    const onIdle = vi.fn();
+    const { result } = renderIdleTimer({ timeout: 1000, onIdle });
+
+    expect(result.current.isIdle).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.isIdle).toBe(true);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  test("calls onAction on activity and onActive when returning from idle", () => {
+    const onAction = vi.fn();
+    const onActive = vi.fn();
+    const { result } = renderIdleTimer({ timeout: 1000, onAction, onActive });
+
+    act(() => {
+      result.current.reset();
+    });
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onActive).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.isIdle).toBe(true);
+
+    act(() => {
+      result.current.reset();
+    });
+    expect(result.current.isIdle).toBe(false);
+    expect(onActive).toHaveBeenCalledTimes(1);
+  });
+
+  test("calls onActive for activity in another tab", () => {
+    const onActive = vi.fn();
+    const { result } = renderIdleTimer({ timeout: 1000, onActive });
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.isIdle).toBe(true);
+
+    act(() => {
+      const newValue = String(Date.now());
+      localStorage.setItem("last_active", newValue);
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "last_active",
+          newValue,
+          storageArea: localStorage,
+        })
+      );
+    });
+
+    expect(result.current.isIdle).toBe(false);
+    expect(onActive).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses the latest callbacks without resubscribing", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = renderIdleTimer({ timeout: 1000, onIdle: first });
+
+    rerender({ timeout: 1000, onIdle: second });
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+/// <reference types="@testing-library/jest-dom" />
+
+import { renderHook, act } from "@testing-library/react";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { InactifyProvider, useInactify, useSessionTimeRemaining } from "../src";
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <InactifyProvider defaultOptions={{ absoluteTimeoutInMilliseconds: 60_000 }}>
+    {children}
+  </InactifyProvider>
+);
+
+describe("useSessionTimeRemaining", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderTimeRemaining = () =>
+    renderHook(
+      () => ({
+        remaining: useSessionTimeRemaining({
+          idleTimeoutInMilliseconds: 30_000,
+        }),
+        inactify: useInactify(),
+      }),
+      { wrapper }
+    );
+
+  test("counts down both limits every second", () => {
+    const { result } = renderTimeRemaining();
+
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+
+    expect(result.current.remaining).toEqual({
+      idleRemainingInMilliseconds: 20_000,
+      absoluteRemainingInMilliseconds: 50_000,
+      remainingInMilliseconds: 20_000,
+    });
+  });
+
+  test("restarts the idle countdown on activity but not the session lifetime", () => {
+    const { result } = renderTimeRemaining();
+
+    act(() => {
+      vi.advanceTimersByTime(40_000);
+      result.current.inactify.markActive();
+    });
+
+    expect(result.current.remaining).toEqual({
+      idleRemainingInMilliseconds: 30_000,
+      absoluteRemainingInMilliseconds: 20_000,
+      remainingInMilliseconds: 20_000,
+    });
+  });
+
+  test("reports no absolute limit without absoluteTimeoutInMilliseconds", () => {
+    const { result } = renderHook(
+      () => useSessionTimeRemaining({ idleTimeoutInMilliseconds: 30_000 }),
+      { wrapper: InactifyProvider }
+    );
+
+    expect(result.current.absoluteRemainingInMilliseconds).toBeNull();
+    expect(result.current.remainingInMilliseconds).toBe(30_000);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ActivityManager } from "../src/managers/activity-manager";
+import { TabManager } from "../src/managers/tab-manager";
+import { WakeUpDetector } from "../src/managers/wake-up-detector";
+
+vi.mock("../src/debug/logger", () => ({
+  Logger: {
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe("WakeUpDetector", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("reports focus, online, pageshow and the page becoming visible", () => {
+    const onWakeUp = vi.fn();
+    const detector = new WakeUpDetector(onWakeUp);
+    detector.start();
+
+    window.dispatchEvent(new Event("focus"));
+    window.dispatchEvent(new Event("online"));
+    window.dispatchEvent(new Event("pageshow"));
+    document.dispatchEvent(new Event("visibilitychange"));
+
+    expect(onWakeUp.mock.calls).toEqual([
+      ["focus"],
+      ["online"],
+      ["pageshow"],
+      ["visibilitychange"],
+    ]);
+
+    onWakeUp.mockClear();
+    vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+    document.dispatchEvent(new Event("visibilitychange"));
+    expect(onWakeUp).not.toHaveBeenCalled();
+
+    detector.stop();
+    window.dispatchEvent(new Event("focus"));
+    expect(onWakeUp).not.toHaveBeenCalled();
+  });
+
+  it("reports every tick of the watchdog", () => {
+    const onWakeUp = vi.fn();
+    const detector = new WakeUpDetector(onWakeUp, {
+      watchdogIntervalInMilliseconds: 60_000,
+    });
+    detector.start();
+
+    vi.advanceTimersByTime(120_000);
+    expect(onWakeUp).toHaveBeenCalledTimes(2);
+    expect(onWakeUp).toHaveBeenCalledWith("watchdog");
+
+    detector.stop();
+    vi.advanceTimersByTime(60_000);
+    expect(onWakeUp).toHaveBeenCalledTimes(2);
+  });
+
+  describe("ActivityManager integration", () => {
+    beforeEach(() => {
+      vi.spyOn(TabManager.prototype, "registerCurrentTab").mockImplementation(
+        vi.fn()
+      );
+    });
+
+    // Time passes while the timers are held back, e.g. during OS sleep
+    const sleep = (milliseconds: number) => {
+      const now = performance.now();
+      vi.spyOn(performance, "now").mockReturnValue(now + milliseconds);
+      vi.setSystemTime(Date.now() + milliseconds);
+    };
+
+    it("fires overdue inactivity callbacks on wake-up", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      const cb = vi.fn();
+      activity.subscribeToInactivity(60_000, cb);
+      activity.markActive();
+
+      sleep(90_000);
+      expect(cb).not.toHaveBeenCalled();
+
+      window.dispatchEvent(new Event("focus"));
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("reschedules pending timers for the remaining time", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      const cb = vi.fn();
+      activity.subscribeToInactivity(60_000, cb);
+      activity.markActive();
+
+      sleep(50_000);
+      window.dispatchEvent(new Event("online"));
+      expect(cb).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(10_000);
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+
+    it("does not repeat callbacks that already fired", () => {
+      const activity = new ActivityManager({ syncAcrossTabs: true });
+      const cb = vi.fn();
+      activity.subscribeToInactivity(60_000, cb);
+      activity.markActive();
+
+      vi.advanceTimersByTime(60_000);
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      window.dispatchEvent(new Event("focus"));
+      expect(cb).toHaveBeenCalledTimes(1);
+
+      activity.destroy();
+    });
+  });
+});
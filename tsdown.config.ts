@@ -1,6 +1,17 @@
 import { defineConfig } from 'tsdown'
 
-export default defineConfig({
-  platform: 'neutral',
-  // ...config options
-})
+export default defineConfig([
+  {
+    // One build, so the testing entry shares the provider context with the main entry
+    entry: { index: 'src/index.ts', testing: 'src/testing/index.ts' },
+    platform: 'neutral',
+    // ...config options
+  },
+  {
+    // Self-contained, so the idle clock worker can be served as a single file
+    entry: { 'idle-clock-worker': 'src/idle-clock/idle-clock-worker.ts' },
+    platform: 'browser',
+    dts: false,
+    clean: false,
+  },
+])